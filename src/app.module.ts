@@ -6,13 +6,25 @@ import { AppService } from './app.service';
 import { StaffsModule } from './modules/staffs/staffs.module';
 import { AuthModule } from './auth/auth.module';
 import { PrintsModule } from './modules/prints/prints.module';
+import { QuotasModule } from './modules/quotas/quotas.module';
+import { PrintersModule } from './modules/printers/printers.module';
+import { PricingModule } from './modules/pricing/pricing.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { RetentionModule } from './modules/retention/retention.module';
+import { ApprovalsModule } from './modules/approvals/approvals.module';
 @Module({
   imports: [
     AppConfigModule,
     MongoModule,
     StaffsModule,
     AuthModule,
-    PrintsModule
+    PrintsModule,
+    QuotasModule,
+    PrintersModule,
+    PricingModule,
+    ReportsModule,
+    RetentionModule,
+    ApprovalsModule
   ],
   providers: [AppService],
   controllers: [AppController]
@@ -1,6 +1,7 @@
-import { Controller, Post, Body, UnauthorizedException } from '@nestjs/common';
+import { Controller, Post, Body, UnauthorizedException, Headers, HttpCode, HttpStatus, ValidationPipe } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 
 @Controller('auth')
 export class AuthController {
@@ -8,10 +9,23 @@ export class AuthController {
 
   @Post('login')
   async login(@Body() loginDto: LoginDto) {
-    const { user, token } = await this.authService.validateUser(loginDto);
+    const { user, token, refreshToken } = await this.authService.validateUser(loginDto);
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
-    return { user, token };
+    return { user, token, refreshToken };
+  }
+
+  @Post('refresh')
+  async refresh(@Body(new ValidationPipe()) refreshTokenDto: RefreshTokenDto) {
+    return await this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  // Works with an expired access token too, so clients can always end their session
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() body: Partial<RefreshTokenDto> | undefined, @Headers('authorization') authHeader?: string): Promise<void> {
+    const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+    await this.authService.logout(body?.refreshToken, accessToken);
   }
 }
@@ -7,6 +7,8 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { Staff, StaffSchema } from 'src/modules/staffs/entities/staff.entity';
 import { AppConfigModule } from '../config/config.module';
 import { ConfigService } from '../config/config.service';
+import { RefreshToken, RefreshTokenSchema } from './entities/refresh-token.entity';
+import { RevokedToken, RevokedTokenSchema } from './entities/revoked-token.entity';
 
 @Module({
   imports: [
@@ -19,7 +21,11 @@ import { ConfigService } from '../config/config.service';
         signOptions: { expiresIn: configService.jwtExpiry },
       }),
     }),
-    MongooseModule.forFeature([{ name: Staff.name, schema: StaffSchema }]),
+    MongooseModule.forFeature([
+      { name: Staff.name, schema: StaffSchema },
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+      { name: RevokedToken.name, schema: RevokedTokenSchema },
+    ]),
   ],
   controllers: [AuthController],
   providers: [AuthService, JwtStrategy],
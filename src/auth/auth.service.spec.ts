@@ -0,0 +1,191 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from 'src/config/config.service';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { Staff } from 'src/modules/staffs/entities/staff.entity';
+import { StaffRole } from 'src/modules/staffs/constants';
+import { AuthService } from './auth.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RevokedToken } from './entities/revoked-token.entity';
+
+const STAFF_ID = '6835ed56604d4e29a09bd6b2';
+
+const exec = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+interface StoredRefreshToken {
+  _id: string;
+  staff: Types.ObjectId;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+}
+
+describe('AuthService', () => {
+  let staffs: Map<string, { roles: StaffRole[]; isActive?: boolean }>;
+  let revokedJtis: Set<string>;
+  let refreshTokens: StoredRefreshToken[];
+  let refreshTokenModel: Record<'findOne' | 'create' | 'updateOne' | 'updateMany' | 'deleteOne', jest.Mock>;
+  let service: AuthService;
+
+  beforeEach(() => {
+    staffs = new Map([[STAFF_ID, { roles: [StaffRole.STAFF, StaffRole.APPROVER] }]]);
+    revokedJtis = new Set();
+    refreshTokens = [];
+
+    const staffModel = {
+      findOne: jest.fn((filter: { _id: string }) => {
+        const staff = staffs.get(filter._id);
+        const found = staff && staff.isActive !== false ? staff : null;
+        return { select: () => ({ lean: () => exec(found) }) };
+      }),
+      findById: jest.fn((id: Types.ObjectId) => {
+        const staff = staffs.get(String(id));
+        return exec(staff ? { _id: id, employeeId: 'E001', ...staff } : null);
+      }),
+    };
+    const revokedTokenModel = {
+      exists: jest.fn(({ jti }: { jti: string }) => exec(revokedJtis.has(jti) ? { _id: jti } : null)),
+    };
+
+    // Only the filters AuthService uses: by token hash, id, family or staff, optionally still unrevoked
+    const matches = (token: StoredRefreshToken, filter: Record<string, unknown>) =>
+      Object.entries(filter).every(([key, value]) => {
+        if (key === 'revokedAt') {
+          return !token.revokedAt;
+        }
+        return String(token[key as keyof StoredRefreshToken]) === String(value);
+      });
+    const update = (filter: Record<string, unknown>, { $set }: { $set: Partial<StoredRefreshToken> }, many: boolean) => {
+      const matched = refreshTokens.filter((token) => matches(token, filter)).slice(0, many ? undefined : 1);
+      matched.forEach((token) => Object.assign(token, $set));
+      return exec({ modifiedCount: matched.length });
+    };
+    refreshTokenModel = {
+      findOne: jest.fn((filter: Record<string, unknown>) => exec(refreshTokens.find((token) => matches(token, filter)) ?? null)),
+      create: jest.fn((token: Omit<StoredRefreshToken, '_id'>) => {
+        refreshTokens.push({ _id: `token-${refreshTokens.length}`, ...token });
+        return Promise.resolve(token);
+      }),
+      updateOne: jest.fn((filter: Record<string, unknown>, changes: { $set: Partial<StoredRefreshToken> }) => update(filter, changes, false)),
+      updateMany: jest.fn((filter: Record<string, unknown>, changes: { $set: Partial<StoredRefreshToken> }) => update(filter, changes, true)),
+      deleteOne: jest.fn((filter: Record<string, unknown>) => {
+        refreshTokens = refreshTokens.filter((token) => !matches(token, filter));
+        return exec({ deletedCount: 1 });
+      }),
+    };
+    const jwtService = { sign: jest.fn(() => 'access-token') };
+    const configService = { refreshTokenExpiryDays: 30 };
+
+    service = new AuthService(
+      staffModel as unknown as Model<Staff>,
+      refreshTokenModel as unknown as Model<RefreshToken>,
+      revokedTokenModel as unknown as Model<RevokedToken>,
+      jwtService as unknown as JwtService,
+      configService as ConfigService,
+    );
+  });
+
+  const login = (familyId = 'family-1', expiresAt = new Date(Date.now() + 60_000)) => {
+    const refreshToken = `refresh-${familyId}-${refreshTokens.length}`;
+    refreshTokens.push({
+      _id: `token-${refreshTokens.length}`,
+      staff: new Types.ObjectId(STAFF_ID),
+      tokenHash: hash(refreshToken),
+      familyId,
+      expiresAt,
+    });
+    return refreshToken;
+  };
+
+  const stored = (refreshToken: string) => refreshTokens.find((token) => token.tokenHash === hash(refreshToken));
+
+  describe('refresh', () => {
+    it('rotates the refresh token within the same family', async () => {
+      const refreshToken = login();
+      const tokens = await service.refresh(refreshToken);
+
+      expect(tokens.token).toBe('access-token');
+      expect(tokens.refreshToken).not.toBe(refreshToken);
+      expect(stored(refreshToken)).toMatchObject({ revokedAt: expect.any(Date) as Date, replacedByHash: hash(tokens.refreshToken) });
+      expect(stored(tokens.refreshToken)).toMatchObject({ familyId: 'family-1' });
+      expect(stored(tokens.refreshToken)?.revokedAt).toBeUndefined();
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+      const refreshToken = login();
+      const otherSession = login('family-2');
+      const { refreshToken: rotated } = await service.refresh(refreshToken);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(UnauthorizedException);
+      expect(stored(rotated)?.revokedAt).toBeInstanceOf(Date);
+      await expect(service.refresh(rotated)).rejects.toThrow(UnauthorizedException);
+      expect(stored(otherSession)?.revokedAt).toBeUndefined();
+    });
+
+    it('rejects unknown and expired tokens', async () => {
+      await expect(service.refresh('unknown')).rejects.toThrow('Invalid refresh token');
+      await expect(service.refresh(login('family-1', new Date(Date.now() - 1000)))).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('revokes every session of a disabled staff member', async () => {
+      const refreshToken = login();
+      const otherSession = login('family-2');
+      staffs.set(STAFF_ID, { roles: [StaffRole.STAFF], isActive: false });
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow('Account is disabled or no longer exists');
+      expect(stored(otherSession)?.revokedAt).toBeInstanceOf(Date);
+    });
+
+    it('drops the new token when a concurrent refresh rotated it first', async () => {
+      const refreshToken = login();
+      refreshTokenModel.updateOne.mockImplementationOnce(() => exec({ modifiedCount: 0 }));
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow('Invalid refresh token');
+      expect(refreshTokens).toHaveLength(1);
+      expect(stored(refreshToken)?.replacedByHash).toBeUndefined();
+    });
+  });
+
+  describe('assertTokenActive', () => {
+    const payload = (overrides: Partial<JwtPayload> = {}): JwtPayload => ({
+      _id: STAFF_ID,
+      employeeId: 'E001',
+      roles: [StaffRole.ADMIN],
+      jti: 'token-1',
+      iat: 0,
+      exp: 0,
+      ...overrides,
+    });
+
+    it('replaces the roles claim with the current roles', async () => {
+      await expect(service.assertTokenActive(payload())).resolves.toMatchObject({
+        _id: STAFF_ID,
+        jti: 'token-1',
+        roles: [StaffRole.STAFF, StaffRole.APPROVER],
+      });
+    });
+
+    it('rejects a revoked token', async () => {
+      revokedJtis.add('token-1');
+      await expect(service.assertTokenActive(payload())).rejects.toThrow('Token has been revoked');
+    });
+
+    it('accepts a token issued before revocation support', async () => {
+      revokedJtis.add('token-1');
+      await expect(service.assertTokenActive(payload({ jti: undefined }))).resolves.toBeDefined();
+    });
+
+    it('rejects tokens of disabled or deleted staff', async () => {
+      staffs.set(STAFF_ID, { roles: [StaffRole.ADMIN], isActive: false });
+      await expect(service.assertTokenActive(payload())).rejects.toThrow(UnauthorizedException);
+
+      staffs.clear();
+      await expect(service.assertTokenActive(payload())).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -1,20 +1,35 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { LoginDto } from './dto/login.dto';
 import { Staff } from 'src/modules/staffs/entities/staff.entity';
 import { User } from './dto/user.interface';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RevokedToken } from './entities/revoked-token.entity';
+import { ConfigService } from 'src/config/config.service';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
 
 @Injectable()
 export class AuthService {
+  private logger = new Logger('AuthService');
+
   constructor(
     @InjectModel(Staff.name) private readonly staffModel: Model<Staff>,
-    private readonly jwtService: JwtService
+    @InjectModel(RefreshToken.name) private readonly refreshTokenModel: Model<RefreshToken>,
+    @InjectModel(RevokedToken.name) private readonly revokedTokenModel: Model<RevokedToken>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
   ) { }
 
-  async validateUser(loginDto: LoginDto): Promise<{ user: User; token: string }> {
+  async validateUser(loginDto: LoginDto): Promise<{ user: User } & AuthTokens> {
     const { employeeId, password } = loginDto;
 
     const user = await this.staffModel.findOne({ employeeId }).exec();
@@ -22,9 +37,11 @@ export class AuthService {
     if (!user || !(await bcrypt.compare(password, user.password))) {
       throw new UnauthorizedException('Invalid credentials');
     }
+    if (user.isActive === false) {
+      throw new UnauthorizedException('Account is disabled');
+    }
 
-    const payload: { _id: string; employeeId: string } = { _id: String(user._id), employeeId: user.employeeId };
-    const token = this.jwtService.sign(payload);
+    const tokens = await this.issueTokens(user, randomUUID());
 
     return {
       user: {
@@ -33,8 +50,121 @@ export class AuthService {
         employeeId: user.employeeId,
         post: user.post,
         department: user.department,
+        roles: user.roles,
       },
-      token,
+      ...tokens,
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh pair. Each refresh token is single use;
+   * presenting one that was already rotated revokes every token descended from the same login.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const storedToken = await this.refreshTokenModel.findOne({ tokenHash: this.hashToken(refreshToken) }).exec();
+    if (!storedToken || storedToken.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (storedToken.revokedAt) {
+      this.logger.warn(`Refresh token reuse detected for staff ${storedToken.staff.toString()}, revoking session family`);
+      await this.refreshTokenModel
+        .updateMany({ familyId: storedToken.familyId, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } })
+        .exec();
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const user = await this.staffModel.findById(storedToken.staff).exec();
+    if (!user || user.isActive === false) {
+      await this.revokeAllSessions(String(storedToken.staff));
+      throw new UnauthorizedException('Account is disabled or no longer exists');
+    }
+
+    const tokens = await this.issueTokens(user, storedToken.familyId);
+    const rotated = await this.refreshTokenModel
+      .updateOne(
+        { _id: storedToken._id, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date(), replacedByHash: this.hashToken(tokens.refreshToken) } },
+      )
+      .exec();
+    if (rotated.modifiedCount === 0) {
+      // Lost a race with a concurrent refresh of the same token
+      await this.refreshTokenModel.deleteOne({ tokenHash: this.hashToken(tokens.refreshToken) }).exec();
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return tokens;
+  }
+
+  async logout(refreshToken: string | undefined, accessToken: string | undefined): Promise<void> {
+    if (refreshToken) {
+      await this.refreshTokenModel
+        .updateOne({ tokenHash: this.hashToken(refreshToken), revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } })
+        .exec();
+    }
+
+    if (accessToken) {
+      try {
+        const payload = this.jwtService.verify<JwtPayload>(accessToken);
+        await this.revokeAccessToken(payload);
+      } catch {
+        // An expired or invalid access token needs no revocation
+      }
+    }
+  }
+
+  async revokeAccessToken(payload: JwtPayload): Promise<void> {
+    if (!payload.jti) {
+      return;
+    }
+    await this.revokedTokenModel
+      .updateOne({ jti: payload.jti }, { $setOnInsert: { expiresAt: new Date(payload.exp * 1000) } }, { upsert: true })
+      .exec();
+  }
+
+  // Access tokens of deleted or disabled staff are rejected by assertTokenActive
+  async revokeAllSessions(staffId: string): Promise<void> {
+    const result = await this.refreshTokenModel
+      .updateMany({ staff: new Types.ObjectId(staffId), revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } })
+      .exec();
+    this.logger.log(`Revoked ${result.modifiedCount} refresh token(s) for staff ${staffId}`);
+  }
+
+  /**
+   * Rejects access tokens that were revoked on logout or belong to staff who have since been
+   * deleted or disabled, so those take effect immediately rather than at JWT_EXPIRY. Returns the
+   * payload with the staff member's current roles; the roles claim is only what they had at login.
+   */
+  async assertTokenActive(payload: JwtPayload): Promise<JwtPayload> {
+    if (payload.jti && (await this.revokedTokenModel.exists({ jti: payload.jti }).exec())) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    const staff = await this.staffModel.findOne({ _id: payload._id, isActive: { $ne: false } }).select('roles').lean().exec();
+    if (!staff) {
+      throw new UnauthorizedException('Account is disabled or no longer exists');
+    }
+    return { ...payload, roles: staff.roles };
+  }
+
+  private async issueTokens(user: Staff, familyId: string): Promise<AuthTokens> {
+    const payload: Pick<JwtPayload, '_id' | 'employeeId' | 'roles'> = {
+      _id: String(user._id),
+      employeeId: user.employeeId,
+      roles: user.roles,
     };
+    const token = this.jwtService.sign(payload, { jwtid: randomUUID() });
+
+    const refreshToken = randomBytes(48).toString('base64url');
+    await this.refreshTokenModel.create({
+      staff: user._id,
+      tokenHash: this.hashToken(refreshToken),
+      familyId,
+      expiresAt: new Date(Date.now() + this.configService.refreshTokenExpiryDays * 24 * 60 * 60 * 1000),
+    });
+
+    return { token, refreshToken };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 }
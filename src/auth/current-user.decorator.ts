@@ -0,0 +1,16 @@
+import { createParamDecorator, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+
+interface AuthenticatedRequest extends FastifyRequest {
+  user?: JwtPayload;
+}
+
+// Resolves the token payload attached by JwtAuthGuard; only use on guarded routes
+export const CurrentUser = createParamDecorator((data: unknown, context: ExecutionContext): JwtPayload => {
+  const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+  if (!request.user) {
+    throw new UnauthorizedException('Authentication required');
+  }
+  return request.user;
+});
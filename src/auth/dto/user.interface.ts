@@ -1,7 +1,10 @@
+import { StaffRole } from 'src/modules/staffs/constants';
+
 export interface User {
   _id: string;
   fullName: string;
   employeeId: string;
   post: string;
   department: string;
+  roles: StaffRole[];
 }
\ No newline at end of file
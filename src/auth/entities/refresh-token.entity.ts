@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { Staff } from 'src/modules/staffs/entities/staff.entity';
+
+@Schema({ collection: 'refresh_tokens', timestamps: true })
+export class RefreshToken extends Document {
+  @Prop({ type: Types.ObjectId, ref: Staff.name, required: true, index: true })
+  staff: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string; // SHA-256 of the opaque token handed to the client
+
+  @Prop({ required: true, index: true })
+  familyId: string; // Shared by every token rotated from the same login
+
+  @Prop({ required: true, expires: 0 })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop()
+  replacedByHash?: string;
+}
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
@@ -0,0 +1,14 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+// Access tokens that must be rejected before they expire; Mongo drops entries once the token would have expired anyway
+@Schema({ collection: 'revoked_tokens', timestamps: true })
+export class RevokedToken extends Document {
+  @Prop({ required: true, unique: true })
+  jti: string;
+
+  @Prop({ required: true, expires: 0 })
+  expiresAt: Date;
+}
+
+export const RevokedTokenSchema = SchemaFactory.createForClass(RevokedToken);
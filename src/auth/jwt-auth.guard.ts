@@ -2,17 +2,22 @@ import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from
 import { Reflector } from '@nestjs/core';
 import { JwtService } from '@nestjs/jwt';
 import { FastifyRequest } from 'fastify';
-import { User } from './dto/user.interface';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { AuthService } from './auth.service';
 
 interface AuthenticatedRequest extends FastifyRequest {
-  user?: User;
+  user?: JwtPayload;
 }
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
-  constructor(private readonly jwtService: JwtService, private readonly reflector: Reflector) {}
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
     const authHeader = request.headers.authorization;
 
@@ -22,12 +27,15 @@ export class JwtAuthGuard implements CanActivate {
 
     const token = authHeader.split(' ')[1];
 
+    let decoded: JwtPayload;
     try {
-      const decoded = this.jwtService.verify<User>(token);
-      request.user = decoded;
-      return true;
+      decoded = this.jwtService.verify<JwtPayload>(token);
     } catch (error) {
       throw new UnauthorizedException(`Invalid token: ${error}`);
     }
+
+    // Signature alone is not enough: the token may have been revoked, its owner disabled or their roles changed
+    request.user = await this.authService.assertTokenActive(decoded);
+    return true;
   }
 }
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { StaffRole } from 'src/modules/staffs/constants';
+
+export const ROLES_KEY = 'roles';
+
+// Any one of the listed roles grants access; enforced by RolesGuard after JwtAuthGuard
+export const Roles = (...roles: StaffRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,50 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from 'src/modules/staffs/constants';
+import { hasRole, RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+  let requiredRoles: StaffRole[] | undefined;
+  let guard: RolesGuard;
+
+  beforeEach(() => {
+    requiredRoles = undefined;
+    const reflector = { getAllAndOverride: jest.fn(() => requiredRoles) } as unknown as Reflector;
+    guard = new RolesGuard(reflector);
+  });
+
+  const contextFor = (user?: Partial<JwtPayload>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  it('lets any authenticated request through a route without roles', () => {
+    expect(guard.canActivate(contextFor({ roles: [StaffRole.STAFF] }))).toBe(true);
+
+    requiredRoles = [];
+    expect(guard.canActivate(contextFor())).toBe(true);
+  });
+
+  it('accepts any one of the required roles', () => {
+    requiredRoles = [StaffRole.ADMIN, StaffRole.APPROVER];
+    expect(guard.canActivate(contextFor({ roles: [StaffRole.STAFF, StaffRole.APPROVER] }))).toBe(true);
+  });
+
+  it('rejects a user without a required role', () => {
+    requiredRoles = [StaffRole.ADMIN];
+    expect(() => guard.canActivate(contextFor({ roles: [StaffRole.STAFF] }))).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(contextFor({ roles: undefined }))).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(contextFor())).toThrow(ForbiddenException);
+  });
+});
+
+describe('hasRole', () => {
+  it('matches any of the given roles', () => {
+    expect(hasRole({ roles: [StaffRole.KIOSK] }, StaffRole.ADMIN, StaffRole.KIOSK)).toBe(true);
+    expect(hasRole({ roles: [StaffRole.KIOSK] }, StaffRole.ADMIN)).toBe(false);
+    expect(hasRole(undefined, StaffRole.STAFF)).toBe(false);
+  });
+});
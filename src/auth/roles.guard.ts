@@ -0,0 +1,35 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyRequest } from 'fastify';
+import { ROLES_KEY } from './roles.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from 'src/modules/staffs/constants';
+
+interface AuthenticatedRequest extends FastifyRequest {
+  user?: JwtPayload;
+}
+
+export function hasRole(user: Pick<JwtPayload, 'roles'> | undefined, ...roles: StaffRole[]): boolean {
+  return !!user?.roles?.some((role) => roles.includes(role));
+}
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<StaffRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!hasRole(request.user, ...requiredRoles)) {
+      throw new ForbiddenException(`Requires one of the roles: ${requiredRoles.join(', ')}`);
+    }
+    return true;
+  }
+}
@@ -1,6 +1,10 @@
+import { StaffRole } from 'src/modules/staffs/constants';
+
 export interface JwtPayload {
     _id: string;
     employeeId: string;
+    roles: StaffRole[];
+    jti?: string; // Absent on tokens issued before revocation support
     iat: number;
     exp: number;
 }
\ No newline at end of file
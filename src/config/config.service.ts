@@ -13,6 +13,11 @@ export class ConfigService {
     return value;
   }
 
+  private getNumberOrDefault(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
+
   get port(): number {
     return Number(this.getOrThrow('PORT'));
   }
@@ -48,4 +53,133 @@ export class ConfigService {
   get jwtExpiry(): string {
     return this.getOrThrow('JWT_EXPIRY');
   }
+
+  get refreshTokenExpiryDays(): number {
+    return this.getNumberOrDefault('REFRESH_TOKEN_EXPIRY_DAYS', 30);
+  }
+
+  get jobReconcileIntervalSeconds(): number {
+    return this.getNumberOrDefault('JOB_RECONCILE_INTERVAL_SECONDS', 60);
+  }
+
+  get heldPrintExpiryHours(): number {
+    return this.getNumberOrDefault('HELD_PRINT_EXPIRY_HOURS', 24);
+  }
+
+  // Prints awaiting approval for longer than this expire
+  get approvalExpiryHours(): number {
+    return this.getNumberOrDefault('APPROVAL_EXPIRY_HOURS', 48);
+  }
+
+  // Fallbacks are the values that used to be hard-coded in prints/constants.ts
+  get cupsServerIp(): string {
+    return this.configService.get<string>('CUPS_SERVER_IP') || '192.168.1.188';
+  }
+
+  get cupsServerPort(): number {
+    return this.getNumberOrDefault('CUPS_SERVER_PORT', 631);
+  }
+
+  get cupsAdminUsername(): string {
+    return this.configService.get<string>('CUPS_ADMIN_USERNAME') || 'admin';
+  }
+
+  get cupsAdminPassword(): string {
+    return this.configService.get<string>('CUPS_ADMIN_PASSWORD') || '';
+  }
+
+  get defaultPrinter(): string {
+    return this.configService.get<string>('DEFAULT_PRINTER') || 'ricoh-m2701';
+  }
+
+  // Only used to seed the printer registry when it is empty
+  get seedPrinters(): string[] {
+    const printers = (this.configService.get<string>('PRINTERS') ?? '')
+      .split(',')
+      .map((p) => p.trim().toLowerCase())
+      .filter(Boolean);
+    return printers.length > 0 ? printers : [this.defaultPrinter];
+  }
+
+  get printerCapabilityRefreshHours(): number {
+    return this.getNumberOrDefault('PRINTER_CAPABILITY_REFRESH_HOURS', 12);
+  }
+
+  get printerStatusPollIntervalSeconds(): number {
+    return this.getNumberOrDefault('PRINTER_STATUS_POLL_INTERVAL_SECONDS', 60);
+  }
+
+  get printerStatusHistoryDays(): number {
+    return this.getNumberOrDefault('PRINTER_STATUS_HISTORY_DAYS', 30);
+  }
+
+  // e.g. "completed:7,failed:30"; statuses left out keep the defaults in retention/constants.ts
+  get fileRetentionDays(): Record<string, number> {
+    const entries = (this.configService.get<string>('FILE_RETENTION_DAYS') ?? '')
+      .split(',')
+      .map((entry) => entry.split(':').map((part) => part.trim().toLowerCase()))
+      .filter(([status, days]) => status && Number.isFinite(Number(days)) && Number(days) > 0)
+      .map(([status, days]) => [status, Number(days)] as const);
+    return Object.fromEntries(entries);
+  }
+
+  get fileRetentionSweepIntervalHours(): number {
+    return this.getNumberOrDefault('FILE_RETENTION_SWEEP_INTERVAL_HOURS', 6);
+  }
+
+  // Printers can override this with their own dispatchConcurrency
+  get printQueueConcurrency(): number {
+    return this.getNumberOrDefault('PRINT_QUEUE_CONCURRENCY_PER_PRINTER', 1);
+  }
+
+  get printQueueMaxAttempts(): number {
+    return this.getNumberOrDefault('PRINT_QUEUE_MAX_ATTEMPTS', 5);
+  }
+
+  get printQueueRetryBaseSeconds(): number {
+    return this.getNumberOrDefault('PRINT_QUEUE_RETRY_BASE_SECONDS', 15);
+  }
+
+  get storageBackend(): string {
+    return (this.configService.get<string>('STORAGE_BACKEND') || 'local').trim().toLowerCase();
+  }
+
+  get uploadBasePath(): string {
+    return this.configService.get<string>('UPLOAD_BASE_PATH') || '/home/akroid/print_uploads';
+  }
+
+  get s3Bucket(): string {
+    return this.getOrThrow('S3_BUCKET');
+  }
+
+  get s3Region(): string {
+    return this.configService.get<string>('S3_REGION') || 'us-east-1';
+  }
+
+  // Set for S3-compatible servers such as MinIO; AWS is used when empty
+  get s3Endpoint(): string | undefined {
+    return this.configService.get<string>('S3_ENDPOINT') || undefined;
+  }
+
+  get s3ForcePathStyle(): boolean {
+    return this.configService.get<string>('S3_FORCE_PATH_STYLE') === 'true';
+  }
+
+  get s3AccessKeyId(): string | undefined {
+    return this.configService.get<string>('S3_ACCESS_KEY_ID') || undefined;
+  }
+
+  get s3SecretAccessKey(): string {
+    return this.configService.get<string>('S3_SECRET_ACCESS_KEY') || '';
+  }
+
+  get s3KeyPrefix(): string {
+    const prefix = (this.configService.get<string>('S3_KEY_PREFIX') ?? '').replace(/^\/+|\/+$/g, '');
+    return prefix ? `${prefix}/` : '';
+  }
+
+  // Shared secret for signed status updates on POST /prints/webhook/status; the webhook is off when empty
+  get printStatusWebhookSecret(): string | undefined {
+    return this.configService.get<string>('PRINT_STATUS_WEBHOOK_SECRET') || undefined;
+  }
 }
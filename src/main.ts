@@ -4,6 +4,7 @@ import { AppModule } from './app.module';
 import { ConfigService } from './config/config.service';
 import { APP_CONSTANTS_PROMISE, CORS } from './helper/app.constants';
 import { TrackingMiddleware, AuthenticatedRequest } from './tracking.middleware';
+import { AuthService } from './auth/auth.service';
 import { preValidationHookHandler } from 'fastify';
 import multipart from '@fastify/multipart';
 
@@ -18,9 +19,11 @@ async function bootstrap(): Promise<void> {
       },
     });
 
-    const app = await NestFactory.create<NestFastifyApplication>(AppModule, fastifyAdapter);
+    const app = await NestFactory.create<NestFastifyApplication>(AppModule, fastifyAdapter, {
+      rawBody: true, // Needed to verify signed webhook requests
+    });
     const configService = app.get(ConfigService);
-    const trackingMiddleware = new TrackingMiddleware(configService);
+    const trackingMiddleware = new TrackingMiddleware(configService, app.get(AuthService));
 
     fastifyAdapter.getInstance().addHook('preValidation', ((request, reply, done) => {
       trackingMiddleware.use(request as AuthenticatedRequest, reply, done);
@@ -0,0 +1,32 @@
+import { Body, Controller, Get, Patch, UseGuards, ValidationPipe } from '@nestjs/common';
+import { ApprovalsService } from './approvals.service';
+import { ApprovalRules } from './entities/approval-rules.entity';
+import { UpdateApprovalRulesDto } from './dto/update-approval-rules.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from '../staffs/constants';
+
+// Pending approvals and the approve/reject actions live on the prints controller
+@Controller('approvals')
+export class ApprovalsController {
+  constructor(private readonly approvalsService: ApprovalsService) { }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('rules')
+  async findRules(): Promise<ApprovalRules> {
+    return await this.approvalsService.getRules();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Patch('rules')
+  async updateRules(
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) updateApprovalRulesDto: UpdateApprovalRulesDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ApprovalRules> {
+    return await this.approvalsService.updateRules(updateApprovalRulesDto, user);
+  }
+}
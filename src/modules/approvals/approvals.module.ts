@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApprovalsService } from './approvals.service';
+import { ApprovalsController } from './approvals.controller';
+import { ApprovalRules, ApprovalRulesSchema } from './entities/approval-rules.entity';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: ApprovalRules.name, schema: ApprovalRulesSchema }]),
+    AuthModule,
+  ],
+  controllers: [ApprovalsController],
+  providers: [ApprovalsService],
+  exports: [ApprovalsService],
+})
+export class ApprovalsModule {}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ApprovalRules } from './entities/approval-rules.entity';
+import { UpdateApprovalRulesDto } from './dto/update-approval-rules.dto';
+import { APPROVAL_RULES_KEY } from './constants';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+
+export interface ApprovalCandidate {
+  isColor: boolean;
+  paperSize: string;
+  estimatedPages: number;
+  department?: string;
+}
+
+@Injectable()
+export class ApprovalsService {
+  constructor(@InjectModel(ApprovalRules.name) private readonly approvalRulesModel: Model<ApprovalRules>) { }
+
+  async getRules(): Promise<ApprovalRules> {
+    // Created disabled on first use so nothing changes until an admin turns approvals on
+    return this.approvalRulesModel
+      .findOneAndUpdate({ key: APPROVAL_RULES_KEY }, { $setOnInsert: { key: APPROVAL_RULES_KEY } }, { new: true, upsert: true, setDefaultsOnInsert: true })
+      .exec();
+  }
+
+  async updateRules(updateApprovalRulesDto: UpdateApprovalRulesDto, user: JwtPayload): Promise<ApprovalRules> {
+    const { pageThreshold, departments, ...rules } = updateApprovalRulesDto;
+    const set: Record<string, unknown> = { ...rules, updatedBy: user.employeeId };
+    if (departments) {
+      set.departments = [...new Set(departments.map((department) => department.trim()).filter(Boolean))];
+    }
+    if (typeof pageThreshold === 'number') {
+      set.pageThreshold = pageThreshold;
+    }
+    // null clears the threshold
+    const update = pageThreshold === null ? { $set: set, $unset: { pageThreshold: 1 } } : { $set: set };
+
+    return this.approvalRulesModel
+      .findOneAndUpdate({ key: APPROVAL_RULES_KEY }, update, { new: true, upsert: true, setDefaultsOnInsert: true, runValidators: true })
+      .exec();
+  }
+
+  // Returns why the print needs approval; an empty list means it can be dispatched straight away
+  async getApprovalReasons(candidate: ApprovalCandidate): Promise<string[]> {
+    const rules = await this.getRules();
+    if (!rules.enabled) {
+      return [];
+    }
+
+    const reasons: string[] = [];
+    if (rules.colorJobs && candidate.isColor) {
+      reasons.push('Color job');
+    }
+    if (rules.pageThreshold !== undefined && candidate.estimatedPages > rules.pageThreshold) {
+      reasons.push(`More than ${rules.pageThreshold} pages (${candidate.estimatedPages})`);
+    }
+    if (rules.paperSizes.includes(candidate.paperSize as ApprovalRules['paperSizes'][number])) {
+      reasons.push(`${candidate.paperSize} paper`);
+    }
+    const department = candidate.department?.toLowerCase();
+    if (department && rules.departments.some((ruleDepartment) => ruleDepartment.toLowerCase() === department)) {
+      reasons.push(`Department ${candidate.department} requires approval`);
+    }
+    return reasons;
+  }
+}
@@ -0,0 +1 @@
+export const APPROVAL_RULES_KEY = 'default';
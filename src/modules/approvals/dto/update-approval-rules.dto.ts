@@ -0,0 +1,29 @@
+import { IsArray, IsBoolean, IsIn, IsInt, IsOptional, IsString, Min, ValidateIf } from 'class-validator';
+import { PaperSize, VALID_PAPER_SIZES } from '../../prints/constants';
+
+export class UpdateApprovalRulesDto {
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'colorJobs must be a boolean' })
+  colorJobs?: boolean;
+
+  // null removes the page threshold
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt({ message: 'pageThreshold must be an integer' })
+  @Min(1)
+  pageThreshold?: number | null;
+
+  @IsOptional()
+  @IsArray({ message: 'paperSizes must be an array' })
+  @IsIn(VALID_PAPER_SIZES, { each: true, message: `paperSizes must only contain: ${VALID_PAPER_SIZES.join(', ')}` })
+  paperSizes?: PaperSize[];
+
+  @IsOptional()
+  @IsArray({ message: 'departments must be an array' })
+  @IsString({ each: true, message: 'departments must only contain strings' })
+  departments?: string[];
+}
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { APPROVAL_RULES_KEY } from '../constants';
+import { PaperSize, VALID_PAPER_SIZES } from '../../prints/constants';
+
+// Single document with the rules that send a print to an approver before it is dispatched
+@Schema({ collection: 'approval_rules', timestamps: true })
+export class ApprovalRules extends Document {
+  @Prop({ required: true, unique: true, default: APPROVAL_RULES_KEY })
+  key: string;
+
+  @Prop({ default: false })
+  enabled: boolean; // Nothing needs approval while this is off, whatever the rules below say
+
+  @Prop({ default: false })
+  colorJobs: boolean;
+
+  @Prop({ min: 1 })
+  pageThreshold?: number; // Jobs with more estimated pages (all copies) than this need approval
+
+  @Prop({ type: [String], enum: VALID_PAPER_SIZES, default: [] })
+  paperSizes: PaperSize[];
+
+  @Prop({ type: [String], default: [] })
+  departments: string[]; // Every job from these departments needs approval
+
+  @Prop()
+  updatedBy?: string;
+}
+
+export const ApprovalRulesSchema = SchemaFactory.createForClass(ApprovalRules);
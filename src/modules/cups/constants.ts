@@ -0,0 +1,4 @@
+export const CUPS_NOTIFY_EVENTS = ['job-state-changed', 'printer-state-changed'];
+export const CUPS_SUBSCRIPTION_LEASE_SECONDS = 60 * 60;
+export const CUPS_SUBSCRIPTION_RENEW_MARGIN_MS = 5 * 60 * 1000;
+export const CUPS_NOTIFICATION_POLL_INTERVAL_MS = 2000;
@@ -0,0 +1,169 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import { CupsService, IPPEventNotification } from './cups.service';
+import {
+  CUPS_NOTIFY_EVENTS,
+  CUPS_NOTIFICATION_POLL_INTERVAL_MS,
+  CUPS_SUBSCRIPTION_LEASE_SECONDS,
+  CUPS_SUBSCRIPTION_RENEW_MARGIN_MS,
+} from './constants';
+
+export interface CupsJobEvent {
+  printer: string;
+  jobId: string;
+  event?: string;
+  jobState?: string;
+  jobStateReasons: string[];
+}
+
+export interface CupsPrinterEvent {
+  printer: string;
+  printerState?: string | number;
+  printerStateReasons: string[];
+}
+
+interface PrinterWatcher {
+  subscriptionId?: number;
+  sequenceNumber: number;
+  leaseExpiresAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Keeps one CUPS event subscription per printer and pulls its notifications on a fixed interval,
+ * fanning job and printer state changes out to whoever listens on the subjects below.
+ */
+@Injectable()
+export class CupsEventsService implements OnModuleDestroy {
+  private logger = new Logger('CupsEventsService');
+  private readonly watchers = new Map<string, PrinterWatcher>();
+  private stopped = false;
+
+  readonly jobEvents$ = new Subject<CupsJobEvent>();
+  readonly printerEvents$ = new Subject<CupsPrinterEvent>();
+
+  constructor(private readonly cupsService: CupsService) { }
+
+  watchPrinter(printerName: string): void {
+    if (this.stopped || this.watchers.has(printerName)) {
+      return;
+    }
+    this.logger.log(`Watching CUPS events for printer ${printerName}`);
+    this.watchers.set(printerName, { sequenceNumber: 1, leaseExpiresAt: 0 });
+    void this.pollPrinter(printerName);
+  }
+
+  async onModuleDestroy() {
+    this.stopped = true;
+    for (const [printerName, watcher] of this.watchers) {
+      if (watcher.timer) {
+        clearTimeout(watcher.timer);
+      }
+      if (watcher.subscriptionId) {
+        await this.cupsService
+          .cancelSubscription(printerName, watcher.subscriptionId)
+          .catch((err: unknown) => this.logger.warn(`Failed to cancel subscription for ${printerName}: ${err instanceof Error ? err.message : 'Unknown error'}`));
+      }
+    }
+    this.watchers.clear();
+    this.jobEvents$.complete();
+    this.printerEvents$.complete();
+  }
+
+  private async pollPrinter(printerName: string): Promise<void> {
+    const watcher = this.watchers.get(printerName);
+    if (!watcher || this.stopped) {
+      return;
+    }
+
+    let interval = CUPS_NOTIFICATION_POLL_INTERVAL_MS;
+    try {
+      await this.ensureSubscription(printerName, watcher);
+      const res = await this.cupsService.getNotifications(printerName, watcher.subscriptionId as number, watcher.sequenceNumber);
+
+      if (res.statusCode === 'client-error-not-found') {
+        // CUPS restarted or dropped the subscription; start over with a fresh one
+        this.logger.warn(`Subscription ${watcher.subscriptionId} for ${printerName} no longer exists, recreating`);
+        watcher.subscriptionId = undefined;
+      } else if (!res.statusCode?.startsWith('successful')) {
+        throw new Error(`Get-Notifications failed with ${res.statusCode ?? 'unknown status'}`);
+      } else {
+        this.dispatchEvents(printerName, watcher, this.toArray(res['event-notification-attributes-tag']));
+        const suggestedInterval = res['operation-attributes-tag']?.['notify-get-interval'];
+        if (typeof suggestedInterval === 'number' && suggestedInterval > 0) {
+          interval = Math.max(interval, suggestedInterval * 1000);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to poll CUPS events for ${printerName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      interval = CUPS_NOTIFICATION_POLL_INTERVAL_MS * 5;
+    }
+
+    if (!this.stopped) {
+      watcher.timer = setTimeout(() => void this.pollPrinter(printerName), interval);
+    }
+  }
+
+  private async ensureSubscription(printerName: string, watcher: PrinterWatcher): Promise<void> {
+    const leaseMs = CUPS_SUBSCRIPTION_LEASE_SECONDS * 1000;
+
+    if (watcher.subscriptionId && watcher.leaseExpiresAt - Date.now() > CUPS_SUBSCRIPTION_RENEW_MARGIN_MS) {
+      return;
+    }
+
+    if (watcher.subscriptionId) {
+      try {
+        await this.cupsService.renewSubscription(printerName, watcher.subscriptionId, CUPS_SUBSCRIPTION_LEASE_SECONDS);
+        watcher.leaseExpiresAt = Date.now() + leaseMs;
+        return;
+      } catch (error) {
+        this.logger.warn(`Failed to renew subscription for ${printerName}, recreating: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    watcher.subscriptionId = await this.cupsService.createPrinterSubscription(printerName, CUPS_NOTIFY_EVENTS, CUPS_SUBSCRIPTION_LEASE_SECONDS);
+    watcher.sequenceNumber = 1;
+    watcher.leaseExpiresAt = Date.now() + leaseMs;
+    this.logger.log(`Created CUPS subscription ${watcher.subscriptionId} for printer ${printerName}`);
+  }
+
+  private dispatchEvents(printerName: string, watcher: PrinterWatcher, notifications: IPPEventNotification[]): void {
+    // Only the latest state matters when a job changed several times between two polls
+    const latestJobEvents = new Map<string, CupsJobEvent>();
+
+    for (const notification of notifications) {
+      const sequenceNumber = notification['notify-sequence-number'];
+      if (typeof sequenceNumber === 'number') {
+        watcher.sequenceNumber = Math.max(watcher.sequenceNumber, sequenceNumber + 1);
+      }
+
+      const jobId = notification['notify-job-id'];
+      if (typeof jobId === 'number') {
+        latestJobEvents.set(String(jobId), {
+          printer: printerName,
+          jobId: String(jobId),
+          event: notification['notify-subscribed-event'],
+          jobState: notification['job-state'],
+          jobStateReasons: this.toArray(notification['job-state-reasons']),
+        });
+      } else if (notification['printer-state'] !== undefined) {
+        this.printerEvents$.next({
+          printer: printerName,
+          printerState: notification['printer-state'],
+          printerStateReasons: this.toArray(notification['printer-state-reasons']),
+        });
+      }
+    }
+
+    for (const event of latestJobEvents.values()) {
+      this.jobEvents$.next(event);
+    }
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CupsService } from './cups.service';
+import { CupsEventsService } from './cups-events.service';
+import { AppConfigModule } from 'src/config/config.module';
+
+@Module({
+  imports: [AppConfigModule],
+  providers: [CupsService, CupsEventsService],
+  exports: [CupsService, CupsEventsService],
+})
+export class CupsModule {}
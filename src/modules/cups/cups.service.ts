@@ -0,0 +1,312 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as ipp from 'ipp';
+import { ConfigService } from 'src/config/config.service';
+import { encodeIppRequest, IPP_GROUP_TAGS, IPP_OPERATIONS, IPP_VALUE_TAGS, IppAttribute, IppGroup } from './ipp-encoder';
+
+export interface IPPResponse {
+  version?: string;
+  statusCode?: string;
+  id?: number;
+  'operation-attributes-tag'?: {
+    'attributes-charset'?: string;
+    'attributes-natural-language'?: string;
+    'status-message'?: string;
+    'notify-get-interval'?: number;
+  };
+  'printer-attributes-tag'?: {
+    'printer-is-accepting-jobs'?: boolean;
+    'printer-state'?: string | number;
+    'printer-state-reasons'?: string | string[] | undefined;
+    'printer-state-message'?: string;
+    'marker-names'?: string | string[];
+    'marker-levels'?: number | number[];
+    'marker-low-levels'?: number | number[];
+    'marker-colors'?: string | string[];
+    'marker-types'?: string | string[];
+    'media-supported'?: string | string[];
+    'sides-supported'?: string | string[];
+    'print-color-mode-supported'?: string | string[];
+    'color-supported'?: boolean;
+    'number-up-supported'?: number | number[];
+    'finishings-supported'?: string | number | Array<string | number>;
+  };
+  'job-attributes-tag'?: {
+    'job-id'?: number;
+    'job-state'?: string;
+    'job-state-reasons'?: string | string[];
+    'pages-completed'?: number;
+    'job-media-sheets-completed'?: number;
+    'job-impressions-completed'?: number;
+  };
+  'subscription-attributes-tag'?: {
+    'notify-subscription-id'?: number;
+    'notify-lease-duration'?: number;
+  };
+  'event-notification-attributes-tag'?: IPPEventNotification | IPPEventNotification[];
+}
+
+export interface IPPEventNotification {
+  'notify-subscription-id'?: number;
+  'notify-sequence-number'?: number;
+  'notify-subscribed-event'?: string;
+  'notify-text'?: string;
+  'notify-job-id'?: number;
+  'job-state'?: string;
+  'job-state-reasons'?: string | string[];
+  'printer-state'?: string | number;
+  'printer-state-reasons'?: string | string[];
+}
+
+export interface IPPParams {
+  'operation-attributes-tag': {
+    'requested-attributes'?: string[];
+    'job-id'?: number;
+    'requesting-user-name'?: string;
+  };
+}
+
+export interface PrintJobRequest {
+  jobName: string;
+  documentFormat: string;
+  attributes: IppAttribute[]; // Sent in the job-attributes group
+}
+
+// A response with a non-successful status; client-error-* statuses mean the request itself was rejected
+export class IppStatusError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly statusCode: string,
+    readonly statusMessage?: string,
+  ) {
+    super(`${operation} failed with ${statusCode}${statusMessage ? `: ${statusMessage}` : ''}`);
+  }
+
+  get isClientError(): boolean {
+    return this.statusCode.startsWith('client-error');
+  }
+}
+
+interface IPPPrinter {
+  execute: (operation: string, params: object, callback: (err: Error | null, res: IPPResponse | undefined) => void) => void;
+}
+
+@Injectable()
+export class CupsService {
+  private logger = new Logger('CupsService');
+  private readonly adminUsername: string;
+  private readonly adminPassword: string;
+  // Queue URIs from the printer registry; printers without one use the queue on the CUPS server
+  private readonly printerUris = new Map<string, string>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.adminUsername = configService.cupsAdminUsername;
+    this.adminPassword = configService.cupsAdminPassword;
+  }
+
+  get serverUrl(): string {
+    return `http://${this.configService.cupsServerIp}:${this.configService.cupsServerPort}`;
+  }
+
+  registerPrinterUri(printerName: string, cupsUri: string | undefined): void {
+    if (cupsUri) {
+      this.printerUris.set(printerName, cupsUri);
+    } else {
+      this.printerUris.delete(printerName);
+    }
+  }
+
+  getPrinterUri(printerName: string): string {
+    return this.printerUris.get(printerName)
+      ?? `ipp://${this.configService.cupsServerIp}:${this.configService.cupsServerPort}/printers/${printerName}`;
+  }
+
+  /**
+   * Runs an IPP operation against a CUPS queue. Resolves with the raw response, which may still
+   * carry a non-successful status code; use `assertSuccessful` where that matters.
+   */
+  execute(printerName: string, operation: string, params: IPPParams): Promise<IPPResponse> {
+    const printer = new ipp.Printer(this.withCredentials(this.getPrinterUri(printerName))) as IPPPrinter;
+    if (this.adminPassword) {
+      params['operation-attributes-tag']['requesting-user-name'] = this.adminUsername;
+    }
+
+    return new Promise((resolve, reject) => {
+      printer.execute(operation, params, (err: Error | null, res: IPPResponse | undefined) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (!res) {
+          reject(new Error(`${operation} returned an empty response`));
+          return;
+        }
+        resolve(res);
+      });
+    });
+  }
+
+  async getPrinterAttributes(printerName: string, requestedAttributes: string[]): Promise<NonNullable<IPPResponse['printer-attributes-tag']>> {
+    const params: IPPParams = {
+      'operation-attributes-tag': {
+        'requested-attributes': requestedAttributes,
+      },
+    };
+    const res = await this.execute(printerName, 'Get-Printer-Attributes', params);
+    this.assertSuccessful('Get-Printer-Attributes', res);
+    if (!res['printer-attributes-tag']) {
+      throw new Error(`Get-Printer-Attributes returned no printer attributes for ${printerName}`);
+    }
+    return res['printer-attributes-tag'];
+  }
+
+  /**
+   * Submits the document with Print-Job and returns the CUPS job ID. Resolves with undefined when
+   * CUPS accepted the job without reporting an ID, which callers must not treat as a failure to retry.
+   */
+  async printJob(printerName: string, document: Buffer, request: PrintJobRequest): Promise<number | undefined> {
+    const res = await this.executeRaw(
+      printerName,
+      IPP_OPERATIONS.PRINT_JOB,
+      request.attributes.length > 0 ? [{ tag: IPP_GROUP_TAGS.JOB, attributes: request.attributes }] : [],
+      [
+        { tag: IPP_VALUE_TAGS.NAME, name: 'job-name', values: [request.jobName] },
+        { tag: IPP_VALUE_TAGS.MIME_MEDIA_TYPE, name: 'document-format', values: [request.documentFormat] },
+      ],
+      document,
+    );
+    this.assertSuccessful('Print-Job', res);
+
+    const jobId = res['job-attributes-tag']?.['job-id'];
+    return typeof jobId === 'number' ? jobId : undefined;
+  }
+
+  async cancelJob(printerName: string, jobId: string): Promise<void> {
+    await this.executeJobOperation(printerName, 'Cancel-Job', jobId);
+  }
+
+  async holdJob(printerName: string, jobId: string): Promise<void> {
+    await this.executeJobOperation(printerName, 'Hold-Job', jobId);
+  }
+
+  async releaseJob(printerName: string, jobId: string): Promise<void> {
+    await this.executeJobOperation(printerName, 'Release-Job', jobId);
+  }
+
+  private async executeJobOperation(printerName: string, operation: string, jobId: string): Promise<void> {
+    const params: IPPParams = {
+      'operation-attributes-tag': {
+        'job-id': Number(jobId),
+      },
+    };
+    const res = await this.execute(printerName, operation, params);
+    this.assertSuccessful(operation, res);
+    this.logger.log(`${operation} succeeded for job ${jobId} on ${printerName}`);
+  }
+
+  /**
+   * Creates an `ippget` (pull) subscription on a printer queue. CUPS keeps the events for us and
+   * hands them out through Get-Notifications, so one subscription serves every job on the queue.
+   */
+  async createPrinterSubscription(printerName: string, events: string[], leaseSeconds: number): Promise<number> {
+    const res = await this.executeRaw(printerName, IPP_OPERATIONS.CREATE_PRINTER_SUBSCRIPTIONS, [
+      {
+        tag: IPP_GROUP_TAGS.SUBSCRIPTION,
+        attributes: [
+          { tag: IPP_VALUE_TAGS.KEYWORD, name: 'notify-pull-method', values: ['ippget'] },
+          { tag: IPP_VALUE_TAGS.KEYWORD, name: 'notify-events', values: events },
+          { tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-lease-duration', values: [leaseSeconds] },
+        ],
+      },
+    ]);
+    this.assertSuccessful('Create-Printer-Subscriptions', res);
+
+    const subscriptionId = res['subscription-attributes-tag']?.['notify-subscription-id'];
+    if (typeof subscriptionId !== 'number') {
+      throw new Error('Create-Printer-Subscriptions returned no subscription ID');
+    }
+    return subscriptionId;
+  }
+
+  async renewSubscription(printerName: string, subscriptionId: number, leaseSeconds: number): Promise<void> {
+    const res = await this.executeRaw(
+      printerName,
+      IPP_OPERATIONS.RENEW_SUBSCRIPTION,
+      [{ tag: IPP_GROUP_TAGS.SUBSCRIPTION, attributes: [{ tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-lease-duration', values: [leaseSeconds] }] }],
+      [{ tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-subscription-id', values: [subscriptionId] }],
+    );
+    this.assertSuccessful('Renew-Subscription', res);
+  }
+
+  async cancelSubscription(printerName: string, subscriptionId: number): Promise<void> {
+    const res = await this.executeRaw(printerName, IPP_OPERATIONS.CANCEL_SUBSCRIPTION, [], [
+      { tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-subscription-id', values: [subscriptionId] },
+    ]);
+    this.assertSuccessful('Cancel-Subscription', res);
+  }
+
+  /**
+   * Returns the events with a sequence number of at least `sequenceNumber`. The response status
+   * is left for the caller to inspect, since a missing subscription has to be recreated.
+   */
+  async getNotifications(printerName: string, subscriptionId: number, sequenceNumber: number): Promise<IPPResponse> {
+    return this.executeRaw(printerName, IPP_OPERATIONS.GET_NOTIFICATIONS, [], [
+      { tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-subscription-ids', values: [subscriptionId] },
+      { tag: IPP_VALUE_TAGS.INTEGER, name: 'notify-sequence-numbers', values: [sequenceNumber] },
+      { tag: IPP_VALUE_TAGS.BOOLEAN, name: 'notify-wait', values: [false] },
+    ]);
+  }
+
+  private executeRaw(
+    printerName: string,
+    operationId: number,
+    groups: IppGroup[],
+    operationAttributes: IppAttribute[] = [],
+    data?: Buffer,
+  ): Promise<IPPResponse> {
+    const printerUri = this.getPrinterUri(printerName);
+    const request = encodeIppRequest(operationId, [
+      {
+        tag: IPP_GROUP_TAGS.OPERATION,
+        attributes: [
+          { tag: IPP_VALUE_TAGS.CHARSET, name: 'attributes-charset', values: ['utf-8'] },
+          { tag: IPP_VALUE_TAGS.NATURAL_LANGUAGE, name: 'attributes-natural-language', values: ['en-us'] },
+          { tag: IPP_VALUE_TAGS.URI, name: 'printer-uri', values: [printerUri] },
+          // Subscriptions belong to the user that created them, so every call must use the same name
+          { tag: IPP_VALUE_TAGS.NAME, name: 'requesting-user-name', values: [this.adminUsername] },
+          ...operationAttributes,
+        ],
+      },
+      ...groups,
+    ], data);
+
+    return new Promise((resolve, reject) => {
+      ipp.request(this.withCredentials(printerUri), request, (err, res) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(res as unknown as IPPResponse);
+      });
+    });
+  }
+
+  /**
+   * The ipp client has no auth option, but Node's http client turns credentials in the URL into a
+   * basic-auth Authorization header; that is what the CUPS admin operations are checked against.
+   */
+  private withCredentials(printerUri: string): string {
+    if (!this.adminPassword) {
+      return printerUri;
+    }
+    const url = new URL(printerUri);
+    url.username = this.adminUsername;
+    url.password = this.adminPassword;
+    return url.toString();
+  }
+
+  private assertSuccessful(operation: string, res: IPPResponse): void {
+    if (!res.statusCode?.startsWith('successful')) {
+      throw new IppStatusError(operation, res.statusCode ?? 'unknown status', res['operation-attributes-tag']?.['status-message']);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { parse } from 'ipp';
+import { encodeIppRequest, IPP_GROUP_TAGS, IPP_OPERATIONS, IPP_VALUE_TAGS, IppAttribute } from './ipp-encoder';
+
+const operationAttributes: IppAttribute[] = [
+  { tag: IPP_VALUE_TAGS.CHARSET, name: 'attributes-charset', values: ['utf-8'] },
+  { tag: IPP_VALUE_TAGS.NATURAL_LANGUAGE, name: 'attributes-natural-language', values: ['en'] },
+  { tag: IPP_VALUE_TAGS.URI, name: 'printer-uri', values: ['ipp://localhost:631/printers/test'] },
+];
+
+describe('encodeIppRequest', () => {
+  it('writes the version, operation and a non-zero request id', () => {
+    const request = encodeIppRequest(IPP_OPERATIONS.PRINT_JOB, []);
+
+    expect(request.readUInt8(0)).toBe(2);
+    expect(request.readUInt8(1)).toBe(0);
+    expect(request.readUInt16BE(2)).toBe(IPP_OPERATIONS.PRINT_JOB);
+    expect(request.readUInt32BE(4)).toBeGreaterThan(0);
+    expect(request.readUInt8(8)).toBe(IPP_GROUP_TAGS.END);
+  });
+
+  it('encodes attributes the way the ipp package decodes them', () => {
+    const request = encodeIppRequest(IPP_OPERATIONS.PRINT_JOB, [
+      { tag: IPP_GROUP_TAGS.OPERATION, attributes: operationAttributes },
+      {
+        tag: IPP_GROUP_TAGS.JOB,
+        attributes: [
+          { tag: IPP_VALUE_TAGS.INTEGER, name: 'copies', values: [3] },
+          { tag: IPP_VALUE_TAGS.BOOLEAN, name: 'fit-to-page', values: [true] },
+          { tag: IPP_VALUE_TAGS.KEYWORD, name: 'sides', values: ['two-sided-long-edge'] },
+          { tag: IPP_VALUE_TAGS.ENUM, name: 'orientation-requested', values: [4] },
+          { tag: IPP_VALUE_TAGS.RANGE_OF_INTEGER, name: 'page-ranges', values: [[1, 3], [7, 7]] },
+        ],
+      },
+    ]);
+
+    const decoded = parse(request);
+    expect(decoded['operation-attributes-tag']).toEqual({
+      'attributes-charset': 'utf-8',
+      'attributes-natural-language': 'en',
+      'printer-uri': 'ipp://localhost:631/printers/test',
+    });
+    expect(decoded['job-attributes-tag']).toEqual({
+      copies: 3,
+      'fit-to-page': true,
+      sides: 'two-sided-long-edge',
+      'orientation-requested': 'landscape',
+      'page-ranges': [[1, 3], [7, 7]],
+    });
+  });
+
+  it('encodes collections with their members, including nested collections', () => {
+    const request = encodeIppRequest(IPP_OPERATIONS.PRINT_JOB, [
+      { tag: IPP_GROUP_TAGS.OPERATION, attributes: operationAttributes },
+      {
+        tag: IPP_GROUP_TAGS.JOB,
+        attributes: [
+          {
+            tag: IPP_VALUE_TAGS.BEGIN_COLLECTION,
+            name: 'media-col',
+            values: [[
+              {
+                tag: IPP_VALUE_TAGS.BEGIN_COLLECTION,
+                name: 'media-size',
+                values: [[
+                  { tag: IPP_VALUE_TAGS.INTEGER, name: 'x-dimension', values: [21000] },
+                  { tag: IPP_VALUE_TAGS.INTEGER, name: 'y-dimension', values: [29700] },
+                ]],
+              },
+              { tag: IPP_VALUE_TAGS.INTEGER, name: 'media-left-margin', values: [720] },
+              { tag: IPP_VALUE_TAGS.INTEGER, name: 'media-top-margin', values: [360] },
+            ]],
+          },
+          { tag: IPP_VALUE_TAGS.INTEGER, name: 'copies', values: [1] },
+        ],
+      },
+    ]);
+
+    expect(parse(request)['job-attributes-tag']).toEqual({
+      'media-col': {
+        'media-size': { 'x-dimension': 21000, 'y-dimension': 29700 },
+        'media-left-margin': 720,
+        'media-top-margin': 360,
+      },
+      copies: 1,
+    });
+  });
+
+  it('frames a collection with begCollection, memberAttrName and endCollection fields', () => {
+    const request = encodeIppRequest(IPP_OPERATIONS.PRINT_JOB, [
+      {
+        tag: IPP_GROUP_TAGS.JOB,
+        attributes: [
+          {
+            tag: IPP_VALUE_TAGS.BEGIN_COLLECTION,
+            name: 'media-col',
+            values: [[{ tag: IPP_VALUE_TAGS.INTEGER, name: 'media-left-margin', values: [720] }]],
+          },
+        ],
+      },
+    ]);
+
+    const expected = Buffer.concat([
+      Buffer.from([IPP_GROUP_TAGS.JOB]),
+      Buffer.from([0x34, 0x00, 0x09]), Buffer.from('media-col'), Buffer.from([0x00, 0x00]),
+      Buffer.from([0x4a, 0x00, 0x00, 0x00, 0x11]), Buffer.from('media-left-margin'),
+      Buffer.from([0x21, 0x00, 0x00, 0x00, 0x04, 0x00, 0x00, 0x02, 0xd0]),
+      Buffer.from([0x37, 0x00, 0x00, 0x00, 0x00]),
+      Buffer.from([IPP_GROUP_TAGS.END]),
+    ]);
+    expect(request.subarray(8)).toEqual(expected);
+  });
+
+  it('appends the document after the end-of-attributes tag', () => {
+    const document = Buffer.from('%PDF-1.7');
+    const request = encodeIppRequest(IPP_OPERATIONS.PRINT_JOB, [{ tag: IPP_GROUP_TAGS.OPERATION, attributes: operationAttributes }], document);
+
+    expect(request.subarray(request.length - document.length)).toEqual(document);
+    expect(request[request.length - document.length - 1]).toBe(IPP_GROUP_TAGS.END);
+  });
+});
@@ -0,0 +1,132 @@
+// Minimal IPP request encoder (RFC 8010) for operations the `ipp` package cannot serialize:
+// it only writes the operation, job, printer and document groups, so anything that needs a
+// subscription-attributes group or notify-* operation attributes is built here instead. Print-Job
+// goes through here too, since the package rejects CUPS job attributes such as number-up-layout.
+
+export const IPP_OPERATIONS = {
+  PRINT_JOB: 0x0002,
+  CREATE_PRINTER_SUBSCRIPTIONS: 0x0016,
+  RENEW_SUBSCRIPTION: 0x001a,
+  CANCEL_SUBSCRIPTION: 0x001b,
+  GET_NOTIFICATIONS: 0x001c,
+} as const;
+
+export const IPP_GROUP_TAGS = {
+  OPERATION: 0x01,
+  JOB: 0x02,
+  SUBSCRIPTION: 0x06,
+  END: 0x03,
+} as const;
+
+export const IPP_VALUE_TAGS = {
+  INTEGER: 0x21,
+  BOOLEAN: 0x22,
+  ENUM: 0x23,
+  RANGE_OF_INTEGER: 0x33,
+  NAME: 0x42,
+  KEYWORD: 0x44,
+  URI: 0x45,
+  CHARSET: 0x47,
+  NATURAL_LANGUAGE: 0x48,
+  MIME_MEDIA_TYPE: 0x49,
+  // Collections (RFC 8010 section 3.1.6), e.g. media-col
+  BEGIN_COLLECTION: 0x34,
+  END_COLLECTION: 0x37,
+  MEMBER_ATTR_NAME: 0x4a,
+} as const;
+
+type IppValueTag = (typeof IPP_VALUE_TAGS)[keyof typeof IPP_VALUE_TAGS];
+type IppGroupTag = (typeof IPP_GROUP_TAGS)[keyof typeof IPP_GROUP_TAGS];
+
+// A BEGIN_COLLECTION attribute takes its member attributes as each value
+export type IppValue = string | number | boolean | [number, number] | IppAttribute[];
+
+export interface IppAttribute {
+  tag: IppValueTag;
+  name: string;
+  values: IppValue[];
+}
+
+export interface IppGroup {
+  tag: IppGroupTag;
+  attributes: IppAttribute[];
+}
+
+// Document data, when given, follows the end-of-attributes tag
+export function encodeIppRequest(operationId: number, groups: IppGroup[], data?: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+
+  const header = Buffer.alloc(8);
+  header.writeUInt8(2, 0); // IPP/2.0
+  header.writeUInt8(0, 1);
+  header.writeUInt16BE(operationId, 2);
+  header.writeUInt32BE(Math.floor(Math.random() * 0x7fffffff) + 1, 4);
+  chunks.push(header);
+
+  for (const group of groups) {
+    chunks.push(Buffer.from([group.tag]));
+    for (const attribute of group.attributes) {
+      attribute.values.forEach((value, index) => {
+        // Additional values of a multi-valued attribute carry an empty name
+        chunks.push(encodeAttributeValue(attribute.tag, index === 0 ? attribute.name : '', value));
+      });
+    }
+  }
+
+  chunks.push(Buffer.from([IPP_GROUP_TAGS.END]));
+  if (data) {
+    chunks.push(data);
+  }
+  return Buffer.concat(chunks);
+}
+
+function encodeAttributeValue(tag: IppValueTag, name: string, value: IppValue): Buffer {
+  if (tag === IPP_VALUE_TAGS.BEGIN_COLLECTION) {
+    return encodeCollection(name, value as IppAttribute[]);
+  }
+
+  let valueBuffer: Buffer;
+  switch (tag) {
+    case IPP_VALUE_TAGS.RANGE_OF_INTEGER: {
+      const [lower, upper] = Array.isArray(value) ? (value as [number, number]) : [Number(value), Number(value)];
+      valueBuffer = Buffer.alloc(8);
+      valueBuffer.writeInt32BE(lower, 0);
+      valueBuffer.writeInt32BE(upper, 4);
+      break;
+    }
+    case IPP_VALUE_TAGS.INTEGER:
+    case IPP_VALUE_TAGS.ENUM:
+      valueBuffer = Buffer.alloc(4);
+      valueBuffer.writeInt32BE(Number(value), 0);
+      break;
+    case IPP_VALUE_TAGS.BOOLEAN:
+      valueBuffer = Buffer.from([value ? 1 : 0]);
+      break;
+    default:
+      valueBuffer = Buffer.from(String(value as string), 'utf8');
+  }
+  return encodeField(tag, name, valueBuffer);
+}
+
+// Members are announced by a memberAttrName field and then encoded like attributes without a name
+function encodeCollection(name: string, members: IppAttribute[]): Buffer {
+  const chunks = [encodeField(IPP_VALUE_TAGS.BEGIN_COLLECTION, name, Buffer.alloc(0))];
+  for (const member of members) {
+    chunks.push(encodeField(IPP_VALUE_TAGS.MEMBER_ATTR_NAME, '', Buffer.from(member.name, 'utf8')));
+    for (const value of member.values) {
+      chunks.push(encodeAttributeValue(member.tag, '', value));
+    }
+  }
+  chunks.push(encodeField(IPP_VALUE_TAGS.END_COLLECTION, '', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+function encodeField(tag: IppValueTag, name: string, value: Buffer): Buffer {
+  const nameBuffer = Buffer.from(name, 'utf8');
+  const prefix = Buffer.alloc(3);
+  prefix.writeUInt8(tag, 0);
+  prefix.writeUInt16BE(nameBuffer.length, 1);
+  const valueLength = Buffer.alloc(2);
+  valueLength.writeUInt16BE(value.length, 0);
+  return Buffer.concat([prefix, nameBuffer, valueLength, value]);
+}
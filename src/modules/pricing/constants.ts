@@ -0,0 +1 @@
+export const PRICE_TABLE_KEY = 'default';
@@ -0,0 +1,33 @@
+import { IsNumber, IsObject, IsOptional, IsString, Length, Max, Min } from 'class-validator';
+
+export class UpdatePriceTableDto {
+  @IsOptional()
+  @IsString({ message: 'Currency must be a string' })
+  @Length(3, 3, { message: 'Currency must be a 3-letter ISO code' })
+  currency?: string;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'perSheet must be a number' })
+  @Min(0)
+  perSheet?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'perImpressionGrayscale must be a number' })
+  @Min(0)
+  perImpressionGrayscale?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'perImpressionColor must be a number' })
+  @Min(0)
+  perImpressionColor?: number;
+
+  @IsOptional()
+  @IsObject({ message: 'paperSizeMultipliers must be an object of paper size to multiplier' })
+  paperSizeMultipliers?: Record<string, number>; // Keys are checked against VALID_PAPER_SIZES in the service
+
+  @IsOptional()
+  @IsNumber({}, { message: 'duplexDiscountPercent must be a number' })
+  @Min(0)
+  @Max(100)
+  duplexDiscountPercent?: number;
+}
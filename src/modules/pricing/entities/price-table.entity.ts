@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PRICE_TABLE_KEY } from '../constants';
+
+// Single document holding the prices used for cost estimates and chargeback reports
+@Schema({ collection: 'price_tables', timestamps: true })
+export class PriceTable extends Document {
+  @Prop({ required: true, unique: true, default: PRICE_TABLE_KEY })
+  key: string;
+
+  @Prop({ default: 'USD', uppercase: true, trim: true })
+  currency: string;
+
+  @Prop({ default: 0, min: 0 })
+  perSheet: number; // Paper cost per physical sheet
+
+  @Prop({ default: 0, min: 0 })
+  perImpressionGrayscale: number; // Toner cost per printed side
+
+  @Prop({ default: 0, min: 0 })
+  perImpressionColor: number;
+
+  @Prop({ type: Map, of: Number, default: {} })
+  paperSizeMultipliers: Map<string, number>; // e.g. A3 -> 2; sizes not listed cost 1x
+
+  @Prop({ default: 0, min: 0, max: 100 })
+  duplexDiscountPercent: number;
+
+  @Prop()
+  updatedBy?: string;
+}
+
+export const PriceTableSchema = SchemaFactory.createForClass(PriceTable);
@@ -0,0 +1,31 @@
+import { Body, Controller, Get, Patch, UseGuards, ValidationPipe } from '@nestjs/common';
+import { PricingService } from './pricing.service';
+import { PriceTable } from './entities/price-table.entity';
+import { UpdatePriceTableDto } from './dto/update-price-table.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from '../staffs/constants';
+
+@Controller('pricing')
+export class PricingController {
+  constructor(private readonly pricingService: PricingService) { }
+
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async findPriceTable(): Promise<PriceTable> {
+    return await this.pricingService.getPriceTable();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Patch()
+  async updatePriceTable(
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) updatePriceTableDto: UpdatePriceTableDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PriceTable> {
+    return await this.pricingService.updatePriceTable(updatePriceTableDto, user);
+  }
+}
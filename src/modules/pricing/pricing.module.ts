@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PricingService } from './pricing.service';
+import { PricingController } from './pricing.controller';
+import { PriceTable, PriceTableSchema } from './entities/price-table.entity';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: PriceTable.name, schema: PriceTableSchema }]),
+    AuthModule,
+  ],
+  controllers: [PricingController],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
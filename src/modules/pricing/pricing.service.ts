@@ -0,0 +1,94 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { PriceTable } from './entities/price-table.entity';
+import { UpdatePriceTableDto } from './dto/update-price-table.dto';
+import { PRICE_TABLE_KEY } from './constants';
+import { PageLayout, Sides, VALID_PAPER_SIZES } from '../prints/constants';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+
+export interface PrintLayout {
+  pagesPerCopy: number;
+  copies: number;
+  sides: Sides;
+  pageLayout: PageLayout;
+}
+
+export interface PrintUsage {
+  sheets: number; // Physical sheets of paper
+  impressions: number; // Printed sides
+}
+
+export interface CostOptions {
+  isColor: boolean;
+  paperSize: string;
+  sides: Sides;
+}
+
+export interface CostEstimate extends PrintUsage {
+  cost: number;
+  currency: string;
+}
+
+@Injectable()
+export class PricingService {
+  constructor(@InjectModel(PriceTable.name) private readonly priceTableModel: Model<PriceTable>) { }
+
+  async getPriceTable(): Promise<PriceTable> {
+    // Created with all-zero prices on first use so costs are simply 0 until finance fills it in
+    return this.priceTableModel
+      .findOneAndUpdate({ key: PRICE_TABLE_KEY }, { $setOnInsert: { key: PRICE_TABLE_KEY } }, { new: true, upsert: true, setDefaultsOnInsert: true })
+      .exec();
+  }
+
+  async updatePriceTable(updatePriceTableDto: UpdatePriceTableDto, user: JwtPayload): Promise<PriceTable> {
+    const { paperSizeMultipliers, ...prices } = updatePriceTableDto;
+    const update: Record<string, unknown> = { ...prices, updatedBy: user.employeeId };
+
+    if (paperSizeMultipliers) {
+      for (const [paperSize, multiplier] of Object.entries(paperSizeMultipliers)) {
+        if (!(VALID_PAPER_SIZES as readonly string[]).includes(paperSize)) {
+          throw new BadRequestException(`Unknown paper size ${paperSize}. Must be one of: ${VALID_PAPER_SIZES.join(', ')}`);
+        }
+        if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 0) {
+          throw new BadRequestException(`Multiplier for ${paperSize} must be a non-negative number`);
+        }
+      }
+      update.paperSizeMultipliers = paperSizeMultipliers;
+    }
+
+    return this.priceTableModel
+      .findOneAndUpdate({ key: PRICE_TABLE_KEY }, { $set: update }, { new: true, upsert: true, setDefaultsOnInsert: true, runValidators: true })
+      .exec();
+  }
+
+  calculateUsage(layout: PrintLayout): PrintUsage {
+    // Booklets put two pages on each side of the sheet
+    const pagesPerSide = layout.pageLayout === PageLayout.BOOKLET ? 2 : 1;
+    const sidesPerSheet = layout.sides === Sides.DOUBLE ? 2 : 1;
+    const impressionsPerCopy = Math.ceil(layout.pagesPerCopy / pagesPerSide);
+    const sheetsPerCopy = Math.ceil(impressionsPerCopy / sidesPerSheet);
+    return {
+      sheets: sheetsPerCopy * layout.copies,
+      impressions: impressionsPerCopy * layout.copies,
+    };
+  }
+
+  async calculateCost(usage: PrintUsage, options: CostOptions): Promise<CostEstimate> {
+    const priceTable = await this.getPriceTable();
+    const perImpression = options.isColor ? priceTable.perImpressionColor : priceTable.perImpressionGrayscale;
+    const multiplier = priceTable.paperSizeMultipliers?.get(options.paperSize) ?? 1;
+    const duplexFactor = options.sides === Sides.DOUBLE ? 1 - priceTable.duplexDiscountPercent / 100 : 1;
+
+    const cost = (usage.sheets * priceTable.perSheet + usage.impressions * perImpression) * multiplier * duplexFactor;
+    return {
+      ...usage,
+      cost: Math.round(cost * 100) / 100,
+      currency: priceTable.currency,
+    };
+  }
+
+  async estimateCost(layout: PrintLayout, options: Omit<CostOptions, 'sides'>): Promise<CostEstimate> {
+    return this.calculateCost(this.calculateUsage(layout), { ...options, sides: layout.sides });
+  }
+}
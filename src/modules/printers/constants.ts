@@ -0,0 +1,36 @@
+import { PaperSize } from '../prints/constants';
+
+export const CAPABILITY_ATTRIBUTES = [
+  'media-supported',
+  'sides-supported',
+  'print-color-mode-supported',
+  'color-supported',
+  'number-up-supported',
+  'finishings-supported',
+];
+
+// PWG media keyword prefixes (as reported in media-supported) for the paper sizes we offer
+export const MEDIA_KEYWORD_PREFIXES: Record<PaperSize, string[]> = {
+  A4: ['iso_a4_', 'a4'],
+  A3: ['iso_a3_', 'a3'],
+  Letter: ['na_letter_', 'letter'],
+  Legal: ['na_legal_', 'legal'],
+};
+
+export const PRINTER_STATUS_ATTRIBUTES = [
+  'printer-state',
+  'printer-state-reasons',
+  'printer-state-message',
+  'printer-is-accepting-jobs',
+  'marker-names',
+  'marker-levels',
+  'marker-low-levels',
+  'marker-colors',
+  'marker-types',
+];
+
+// Reported instead of an IPP printer-state when CUPS or the printer cannot be reached
+export const PRINTER_STATE_UNREACHABLE = 'unreachable';
+
+// Default threshold (percent) when the printer does not report marker-low-levels
+export const SUPPLY_LOW_LEVEL_PERCENT = 10;
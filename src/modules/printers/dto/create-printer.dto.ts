@@ -0,0 +1,59 @@
+import { IsArray, IsBoolean, IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Matches, Max, Min, ValidateNested } from 'class-validator';
+import { Transform, TransformFnParams, Type } from 'class-transformer';
+import { VALID_PAPER_SIZES, PaperSize } from '../../prints/constants';
+
+const toLower = (val: unknown): string | undefined =>
+  typeof val === 'string' ? val.trim().toLowerCase() : undefined;
+
+export class PrinterCapabilitiesDto {
+  @IsOptional()
+  @IsBoolean({ message: 'capabilities.color must be a boolean' })
+  color?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'capabilities.duplex must be a boolean' })
+  duplex?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(VALID_PAPER_SIZES, { each: true, message: 'Paper sizes must be any of: A4, A3, Letter, Legal' })
+  paperSizes?: PaperSize[];
+}
+
+export class CreatePrinterDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @Transform(({ value }: TransformFnParams) => toLower(value))
+  @Matches(/^[a-z0-9_-]+$/, { message: 'Name must be a CUPS queue name (letters, digits, - and _)' })
+  name: string;
+
+  @IsOptional()
+  @IsString({ message: 'CUPS URI must be a string' })
+  @Matches(/^ipps?:\/\/\S+$/, { message: 'CUPS URI must be an ipp:// or ipps:// URI' })
+  cupsUri?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Location must be a string' })
+  location?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PrinterCapabilitiesDto)
+  capabilities?: PrinterCapabilitiesDto;
+
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true, message: 'Allowed departments must be strings' })
+  @Transform(({ value }: TransformFnParams): unknown => (Array.isArray(value) ? value.map(toLower) : value))
+  allowedDepartments?: string[];
+
+  @IsOptional()
+  @IsInt({ message: 'dispatchConcurrency must be an integer' })
+  @Min(1)
+  @Max(20)
+  dispatchConcurrency?: number;
+}
@@ -0,0 +1,21 @@
+import { IsDate, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryPrinterStatusDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'from must be a valid date' })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'to must be a valid date' })
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(1000)
+  limit: number = 100;
+}
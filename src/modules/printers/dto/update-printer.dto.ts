@@ -0,0 +1,5 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreatePrinterDto } from './create-printer.dto';
+
+// The name is the CUPS queue name that existing prints refer to, so it cannot be changed
+export class UpdatePrinterDto extends PartialType(OmitType(CreatePrinterDto, ['name'] as const)) {}
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({ _id: false })
+export class SupplyLevel {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  level: number; // Percent; negative values are IPP "unknown" markers
+
+  @Prop()
+  lowLevel?: number;
+
+  @Prop()
+  color?: string;
+
+  @Prop()
+  type?: string;
+
+  @Prop({ default: false })
+  isLow: boolean;
+}
+
+export const SupplyLevelSchema = SchemaFactory.createForClass(SupplyLevel);
+
+// One entry per change in a printer's state, reasons or supply levels; Mongo drops entries after PRINTER_STATUS_HISTORY_DAYS
+@Schema({ collection: 'printer_status_history', timestamps: true })
+export class PrinterStatus extends Document {
+  @Prop({ required: true, index: true })
+  printer: string;
+
+  @Prop({ required: true })
+  state: string;
+
+  @Prop({ type: [String], default: [] })
+  stateReasons: string[];
+
+  @Prop()
+  stateMessage?: string;
+
+  @Prop({ default: false })
+  acceptingJobs: boolean;
+
+  @Prop({ type: [SupplyLevelSchema], default: [] })
+  supplies: SupplyLevel[];
+
+  @Prop({ required: true })
+  checkedAt: Date;
+
+  @Prop({ required: true, expires: 0 })
+  expiresAt: Date;
+}
+
+export const PrinterStatusSchema = SchemaFactory.createForClass(PrinterStatus);
+PrinterStatusSchema.index({ printer: 1, checkedAt: -1 });
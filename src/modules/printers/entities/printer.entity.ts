@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { VALID_PAPER_SIZES, PaperSize } from '../../prints/constants';
+
+@Schema({ _id: false })
+export class PrinterCapabilities {
+  @Prop({ default: true })
+  color: boolean;
+
+  @Prop({ default: true })
+  duplex: boolean;
+
+  @Prop({ type: [String], enum: VALID_PAPER_SIZES, default: () => [...VALID_PAPER_SIZES] })
+  paperSizes: PaperSize[];
+}
+
+export const PrinterCapabilitiesSchema = SchemaFactory.createForClass(PrinterCapabilities);
+
+// Raw values from the last Get-Printer-Attributes query, kept for troubleshooting and finer checks
+@Schema({ _id: false })
+export class SupportedAttributes {
+  @Prop({ type: [String], default: [] })
+  media: string[];
+
+  @Prop({ type: [String], default: [] })
+  sides: string[];
+
+  @Prop({ type: [String], default: [] })
+  colorModes: string[];
+
+  @Prop({ type: [Number], default: [] })
+  numberUp: number[];
+
+  @Prop({ type: [String], default: [] })
+  finishings: string[];
+}
+
+export const SupportedAttributesSchema = SchemaFactory.createForClass(SupportedAttributes);
+
+@Schema({ collection: 'printers', timestamps: true })
+export class Printer extends Document {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  name: string; // CUPS queue name, also what Print.printer refers to
+
+  @Prop()
+  cupsUri?: string; // Defaults to the queue on CUPS_SERVER_IP when not set
+
+  @Prop()
+  location?: string;
+
+  @Prop({ type: PrinterCapabilitiesSchema, default: () => ({}) })
+  capabilities: PrinterCapabilities; // Overwritten by discovery; manual values only stick for printers that cannot be queried
+
+  @Prop({ type: SupportedAttributesSchema })
+  supportedAttributes?: SupportedAttributes;
+
+  @Prop()
+  capabilitiesDiscoveredAt?: Date;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ type: [String], lowercase: true, trim: true, default: [] })
+  allowedDepartments: string[]; // Empty means every department may use the printer
+
+  @Prop({ min: 1 })
+  dispatchConcurrency?: number; // Jobs sent to CUPS at once; PRINT_QUEUE_CONCURRENCY_PER_PRINTER when not set
+}
+
+export const PrinterSchema = SchemaFactory.createForClass(Printer);
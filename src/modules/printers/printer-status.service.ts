@@ -0,0 +1,172 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Subject, Subscription } from 'rxjs';
+import { PrinterStatus, SupplyLevel } from './entities/printer-status.entity';
+import { QueryPrinterStatusDto } from './dto/query-printer-status.dto';
+import { PrintersService } from './printers.service';
+import { CupsService } from '../cups/cups.service';
+import { CupsEventsService } from '../cups/cups-events.service';
+import { ConfigService } from 'src/config/config.service';
+import { PRINTER_STATE_UNREACHABLE, PRINTER_STATUS_ATTRIBUTES, SUPPLY_LOW_LEVEL_PERCENT } from './constants';
+
+export interface PrinterStatusUpdate {
+  printer: string;
+  state: string;
+  stateReasons: string[];
+  stateMessage?: string;
+  acceptingJobs: boolean;
+  supplies: SupplyLevel[];
+  checkedAt: Date;
+}
+
+/**
+ * Polls every enabled printer for its state and supply levels, keeps the latest reading in memory,
+ * records changes in the status history and publishes them on `statusUpdates$` for the gateway.
+ */
+@Injectable()
+export class PrinterStatusService implements OnModuleInit, OnModuleDestroy {
+  private logger = new Logger('PrinterStatusService');
+  private pollTimer?: NodeJS.Timeout;
+  private printerEventsSubscription?: Subscription;
+  private readonly latestStatus = new Map<string, PrinterStatusUpdate>();
+
+  readonly statusUpdates$ = new Subject<PrinterStatusUpdate>();
+
+  constructor(
+    @InjectModel(PrinterStatus.name) private readonly printerStatusModel: Model<PrinterStatus>,
+    private readonly printersService: PrintersService,
+    private readonly cupsService: CupsService,
+    private readonly cupsEventsService: CupsEventsService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  onModuleInit() {
+    // CUPS already tells us when a watched printer changes state; refresh it right away instead of waiting for the next poll
+    this.printerEventsSubscription = this.cupsEventsService.printerEvents$.subscribe((event) => void this.refreshPrinter(event.printer));
+
+    void this.pollAll();
+    this.pollTimer = setInterval(() => void this.pollAll(), this.configService.printerStatusPollIntervalSeconds * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.printerEventsSubscription?.unsubscribe();
+    this.statusUpdates$.complete();
+  }
+
+  getLatestStatuses(): PrinterStatusUpdate[] {
+    return [...this.latestStatus.values()].sort((a, b) => a.printer.localeCompare(b.printer));
+  }
+
+  async getStatusHistory(printerName: string, query: QueryPrinterStatusDto): Promise<PrinterStatus[]> {
+    const printer = await this.printersService.getPrinterByName(printerName);
+    const checkedAt: Record<string, Date> = {};
+    if (query.from) {
+      checkedAt.$gte = query.from;
+    }
+    if (query.to) {
+      checkedAt.$lte = query.to;
+    }
+    return this.printerStatusModel
+      .find({ printer: printer.name, ...(query.from || query.to ? { checkedAt } : {}) })
+      .sort({ checkedAt: -1 })
+      .limit(query.limit)
+      .exec();
+  }
+
+  async pollAll(): Promise<void> {
+    try {
+      const printers = await this.printersService.getPrinters(false);
+      for (const printer of printers) {
+        this.cupsEventsService.watchPrinter(printer.name);
+        await this.refreshPrinter(printer.name);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to poll printer status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async refreshPrinter(printerName: string): Promise<PrinterStatusUpdate> {
+    let status: PrinterStatusUpdate;
+    try {
+      const attributes = await this.cupsService.getPrinterAttributes(printerName, PRINTER_STATUS_ATTRIBUTES);
+      status = {
+        printer: printerName,
+        state: String(attributes['printer-state'] ?? 'unknown'),
+        stateReasons: this.toArray(attributes['printer-state-reasons']).filter((reason) => reason !== 'none'),
+        stateMessage: attributes['printer-state-message'] || undefined,
+        acceptingJobs: attributes['printer-is-accepting-jobs'] ?? false,
+        supplies: this.toSupplyLevels(attributes),
+        checkedAt: new Date(),
+      };
+    } catch (error) {
+      status = {
+        printer: printerName,
+        state: PRINTER_STATE_UNREACHABLE,
+        stateReasons: [],
+        stateMessage: error instanceof Error ? error.message : 'Unknown error',
+        acceptingJobs: false,
+        supplies: this.latestStatus.get(printerName)?.supplies ?? [],
+        checkedAt: new Date(),
+      };
+    }
+
+    const previous = this.latestStatus.get(printerName);
+    this.latestStatus.set(printerName, status);
+    if (!previous || this.hasChanged(previous, status)) {
+      this.logger.log(`Printer ${printerName} is ${status.state}${status.stateReasons.length > 0 ? ` (${status.stateReasons.join(', ')})` : ''}`);
+      this.statusUpdates$.next(status);
+      await this.recordStatus(status);
+    }
+    return status;
+  }
+
+  private async recordStatus(status: PrinterStatusUpdate): Promise<void> {
+    try {
+      await this.printerStatusModel.create({
+        ...status,
+        expiresAt: new Date(status.checkedAt.getTime() + this.configService.printerStatusHistoryDays * 24 * 60 * 60 * 1000),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record status of ${status.printer}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private hasChanged(previous: PrinterStatusUpdate, current: PrinterStatusUpdate): boolean {
+    const fingerprint = (status: PrinterStatusUpdate) =>
+      JSON.stringify([status.state, status.stateReasons, status.acceptingJobs, status.supplies.map((supply) => [supply.name, supply.level])]);
+    return fingerprint(previous) !== fingerprint(current);
+  }
+
+  private toSupplyLevels(attributes: Awaited<ReturnType<CupsService['getPrinterAttributes']>>): SupplyLevel[] {
+    const names = this.toArray(attributes['marker-names']);
+    const levels = this.toArray(attributes['marker-levels']);
+    const lowLevels = this.toArray(attributes['marker-low-levels']);
+    const colors = this.toArray(attributes['marker-colors']);
+    const types = this.toArray(attributes['marker-types']);
+
+    return names.map((name, index) => {
+      const level = levels[index] ?? -1;
+      const lowLevel = lowLevels[index];
+      return {
+        name,
+        level,
+        lowLevel,
+        color: colors[index],
+        type: types[index],
+        // Negative levels mean CUPS does not know; only flag supplies with a real reading
+        isLow: level >= 0 && level <= (lowLevel ?? SUPPLY_LOW_LEVEL_PERCENT),
+      };
+    });
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,96 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, UseGuards, ValidationPipe } from '@nestjs/common';
+import { PrinterCapabilityReport, PrintersService } from './printers.service';
+import { PrinterStatusService, PrinterStatusUpdate } from './printer-status.service';
+import { Printer } from './entities/printer.entity';
+import { PrinterStatus } from './entities/printer-status.entity';
+import { QueryPrinterStatusDto } from './dto/query-printer-status.dto';
+import { CreatePrinterDto } from './dto/create-printer.dto';
+import { UpdatePrinterDto } from './dto/update-printer.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { hasRole, RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from '../staffs/constants';
+
+@Controller('printers')
+export class PrintersController {
+  constructor(
+    private readonly printersService: PrintersService,
+    private readonly printerStatusService: PrinterStatusService,
+  ) { }
+
+  // Everyone needs the list to pick a printer; disabled printers are only shown to admins
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async findAll(@CurrentUser() user: JwtPayload): Promise<Printer[]> {
+    return await this.printersService.getPrinters(hasRole(user, StaffRole.ADMIN));
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('status')
+  findStatuses(): PrinterStatusUpdate[] {
+    return this.printerStatusService.getLatestStatuses();
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get(':name')
+  async findOne(@Param('name') name: string): Promise<Printer> {
+    return await this.printersService.getPrinterByName(name);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get(':name/capabilities')
+  async findCapabilities(@Param('name') name: string): Promise<PrinterCapabilityReport> {
+    return await this.printersService.getCapabilities(name);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get(':name/status/history')
+  async findStatusHistory(
+    @Param('name') name: string,
+    @Query(new ValidationPipe({ transform: true })) query: QueryPrinterStatusDto,
+  ): Promise<PrinterStatus[]> {
+    return await this.printerStatusService.getStatusHistory(name, query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Post(':name/status/refresh')
+  async refreshStatus(@Param('name') name: string): Promise<PrinterStatusUpdate> {
+    const printer = await this.printersService.getPrinterByName(name);
+    return await this.printerStatusService.refreshPrinter(printer.name);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Post(':name/capabilities/refresh')
+  async refreshCapabilities(@Param('name') name: string): Promise<PrinterCapabilityReport> {
+    return await this.printersService.refreshCapabilities(name);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Post()
+  async create(@Body(new ValidationPipe({ transform: true, whitelist: true })) createPrinterDto: CreatePrinterDto): Promise<Printer> {
+    return await this.printersService.createPrinter(createPrinterDto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Patch(':name')
+  async update(
+    @Param('name') name: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) updatePrinterDto: UpdatePrinterDto,
+  ): Promise<Printer> {
+    return await this.printersService.updatePrinter(name, updatePrinterDto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Delete(':name')
+  async remove(@Param('name') name: string): Promise<Printer> {
+    return await this.printersService.deletePrinter(name);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PrintersService } from './printers.service';
+import { PrintersController } from './printers.controller';
+import { PrinterStatusService } from './printer-status.service';
+import { Printer, PrinterSchema } from './entities/printer.entity';
+import { PrinterStatus, PrinterStatusSchema } from './entities/printer-status.entity';
+import { CupsModule } from '../cups/cups.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { AppConfigModule } from 'src/config/config.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Printer.name, schema: PrinterSchema },
+      { name: PrinterStatus.name, schema: PrinterStatusSchema },
+    ]),
+    CupsModule,
+    AuthModule,
+    AppConfigModule,
+  ],
+  controllers: [PrintersController],
+  providers: [PrintersService, PrinterStatusService],
+  exports: [PrintersService, PrinterStatusService],
+})
+export class PrintersModule {}
@@ -0,0 +1,247 @@
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, InternalServerErrorException, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import { Printer, PrinterCapabilities, SupportedAttributes } from './entities/printer.entity';
+import { CreatePrinterDto } from './dto/create-printer.dto';
+import { UpdatePrinterDto } from './dto/update-printer.dto';
+import { CupsService } from '../cups/cups.service';
+import { ConfigService } from 'src/config/config.service';
+import { PageLayout, PaperSize, Sides, VALID_PAPER_SIZES } from '../prints/constants';
+import { CAPABILITY_ATTRIBUTES, MEDIA_KEYWORD_PREFIXES } from './constants';
+
+export interface PrintRequirements {
+  isColor: boolean;
+  sides: Sides;
+  paperSize: PaperSize;
+  pageLayout: PageLayout;
+}
+
+export interface PrinterCapabilityReport {
+  name: string;
+  capabilities: PrinterCapabilities;
+  supportedAttributes: SupportedAttributes | null;
+  discoveredAt: Date | null; // null means the capabilities were entered manually
+}
+
+@Injectable()
+export class PrintersService implements OnModuleInit, OnModuleDestroy {
+  private logger = new Logger('PrintersService');
+  private capabilityRefreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(Printer.name) private readonly printerModel: Model<Printer>,
+    private readonly cupsService: CupsService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  async onModuleInit() {
+    await this.seedFromEnvironment();
+    const printers = await this.printerModel.find().exec();
+    printers.forEach((printer) => this.cupsService.registerPrinterUri(printer.name, printer.cupsUri));
+
+    void this.refreshAllCapabilities();
+    this.capabilityRefreshTimer = setInterval(
+      () => void this.refreshAllCapabilities(),
+      this.configService.printerCapabilityRefreshHours * 60 * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.capabilityRefreshTimer) {
+      clearInterval(this.capabilityRefreshTimer);
+    }
+  }
+
+  // Carries the printers from the old PRINTERS / DEFAULT_PRINTER settings over on first start
+  private async seedFromEnvironment(): Promise<void> {
+    try {
+      if (await this.printerModel.exists({}).exec()) {
+        return;
+      }
+      const names = this.configService.seedPrinters;
+      await this.printerModel.insertMany(names.map((name) => ({ name })));
+      this.logger.log(`Seeded printer registry with ${names.join(', ')}`);
+    } catch (error) {
+      this.logger.error(`Failed to seed printer registry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPrinters(includeDisabled: boolean): Promise<Printer[]> {
+    return this.printerModel.find(includeDisabled ? {} : { enabled: true }).sort({ name: 1 }).exec();
+  }
+
+  async getPrinterByName(name: string): Promise<Printer> {
+    const printer = await this.printerModel.findOne({ name: name.trim().toLowerCase() }).exec();
+    if (!printer) {
+      throw new NotFoundException(`Printer ${name} not found`);
+    }
+    return printer;
+  }
+
+  async createPrinter(createPrinterDto: CreatePrinterDto): Promise<Printer> {
+    try {
+      const printer = await this.printerModel.create(createPrinterDto);
+      this.cupsService.registerPrinterUri(printer.name, printer.cupsUri);
+      return await this.tryRefreshCapabilities(printer);
+    } catch (error: unknown) {
+      if (error instanceof mongo.MongoServerError && error.code === 11000) {
+        throw new ConflictException(`Printer ${createPrinterDto.name} already exists`);
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new InternalServerErrorException(`Failed to create printer: ${errorMessage}`);
+    }
+  }
+
+  async updatePrinter(name: string, updatePrinterDto: UpdatePrinterDto): Promise<Printer> {
+    const { capabilities, ...fields } = updatePrinterDto;
+    const update: Record<string, unknown> = { ...fields };
+    // Set capabilities field by field so a partial update does not wipe the others
+    for (const [key, value] of Object.entries(capabilities ?? {})) {
+      update[`capabilities.${key}`] = value;
+    }
+
+    const printer = await this.printerModel
+      .findOneAndUpdate({ name: name.trim().toLowerCase() }, { $set: update }, { new: true, runValidators: true })
+      .exec();
+    if (!printer) {
+      throw new NotFoundException(`Printer ${name} not found`);
+    }
+    this.cupsService.registerPrinterUri(printer.name, printer.cupsUri);
+    return updatePrinterDto.cupsUri ? await this.tryRefreshCapabilities(printer) : printer;
+  }
+
+  async deletePrinter(name: string): Promise<Printer> {
+    const printer = await this.printerModel.findOneAndDelete({ name: name.trim().toLowerCase() }).exec();
+    if (!printer) {
+      throw new NotFoundException(`Printer ${name} not found`);
+    }
+    this.cupsService.registerPrinterUri(printer.name, undefined);
+    return printer;
+  }
+
+  async getCapabilities(name: string): Promise<PrinterCapabilityReport> {
+    return this.toCapabilityReport(await this.getPrinterByName(name));
+  }
+
+  async refreshCapabilities(name: string): Promise<PrinterCapabilityReport> {
+    const printer = await this.getPrinterByName(name);
+    try {
+      return this.toCapabilityReport(await this.discoverCapabilities(printer));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new InternalServerErrorException(`Failed to query capabilities of ${printer.name}: ${errorMessage}`);
+    }
+  }
+
+  async refreshAllCapabilities(): Promise<void> {
+    const printers = await this.printerModel.find({ enabled: true }).exec().catch(() => [] as Printer[]);
+    for (const printer of printers) {
+      await this.tryRefreshCapabilities(printer);
+    }
+  }
+
+  // Discovery is best effort outside of the explicit refresh endpoint; an offline printer keeps its last known capabilities
+  private async tryRefreshCapabilities(printer: Printer): Promise<Printer> {
+    try {
+      return await this.discoverCapabilities(printer);
+    } catch (error) {
+      this.logger.warn(`Capability discovery for ${printer.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return printer;
+    }
+  }
+
+  /**
+   * Queries the printer over IPP and replaces its capabilities with what it reports, so requests
+   * it cannot honour are rejected up front instead of being silently downgraded by CUPS.
+   */
+  private async discoverCapabilities(printer: Printer): Promise<Printer> {
+    const attributes = await this.cupsService.getPrinterAttributes(printer.name, CAPABILITY_ATTRIBUTES);
+
+    const supportedAttributes: SupportedAttributes = {
+      media: this.toStrings(attributes['media-supported']),
+      sides: this.toStrings(attributes['sides-supported']),
+      colorModes: this.toStrings(attributes['print-color-mode-supported']),
+      // rangeOfInteger values arrive as [lower, upper]; flattening is enough for membership checks
+      numberUp: this.toArray(attributes['number-up-supported']).flat().filter((n): n is number => typeof n === 'number'),
+      finishings: this.toStrings(attributes['finishings-supported']),
+    };
+    const paperSizes = VALID_PAPER_SIZES.filter((size) =>
+      supportedAttributes.media.some((media) => MEDIA_KEYWORD_PREFIXES[size].some((prefix) => media.toLowerCase().startsWith(prefix))),
+    );
+    const capabilities: PrinterCapabilities = {
+      color: supportedAttributes.colorModes.length > 0
+        ? supportedAttributes.colorModes.includes('color')
+        : attributes['color-supported'] === true,
+      duplex: supportedAttributes.sides.some((side) => side.startsWith('two-sided')),
+      // Keep the configured sizes if the printer reports none we know about
+      paperSizes: paperSizes.length > 0 ? paperSizes : printer.capabilities.paperSizes,
+    };
+
+    const updated = await this.printerModel
+      .findByIdAndUpdate(
+        printer._id,
+        { $set: { capabilities, supportedAttributes, capabilitiesDiscoveredAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new Error(`Printer ${printer.name} was removed during discovery`);
+    }
+    this.logger.log(`Discovered capabilities of ${printer.name}: color=${capabilities.color}, duplex=${capabilities.duplex}, paper=${capabilities.paperSizes.join('/')}`);
+    return updated;
+  }
+
+  private toCapabilityReport(printer: Printer): PrinterCapabilityReport {
+    return {
+      name: printer.name,
+      capabilities: printer.capabilities,
+      supportedAttributes: printer.supportedAttributes ?? null,
+      discoveredAt: printer.capabilitiesDiscoveredAt ?? null,
+    };
+  }
+
+  /**
+   * Checks a print request against the registry at submission time: the printer must exist, be
+   * enabled, accept the requester's department and support the requested color, sides and paper.
+   */
+  async assertPrinterAccepts(name: string, department: string, requirements: PrintRequirements): Promise<Printer> {
+    const printer = await this.printerModel.findOne({ name: name.trim().toLowerCase() }).exec();
+    if (!printer || !printer.enabled) {
+      const available = await this.getPrinters(false);
+      throw new BadRequestException(`Invalid printer: ${name}. Must be one of: ${available.map((p) => p.name).join(', ')}`);
+    }
+
+    const normalizedDepartment = department.trim().toLowerCase();
+    if (printer.allowedDepartments.length > 0 && !printer.allowedDepartments.includes(normalizedDepartment)) {
+      throw new ForbiddenException(`Printer ${printer.name} is not available to the ${department} department`);
+    }
+
+    const { capabilities } = printer;
+    if (requirements.isColor && !capabilities.color) {
+      throw new BadRequestException(`Printer ${printer.name} does not support color printing`);
+    }
+    if (requirements.sides === Sides.DOUBLE && !capabilities.duplex) {
+      throw new BadRequestException(`Printer ${printer.name} does not support double-sided printing`);
+    }
+    if (!capabilities.paperSizes.includes(requirements.paperSize)) {
+      throw new BadRequestException(`Printer ${printer.name} does not support ${requirements.paperSize} paper. Supported sizes: ${capabilities.paperSizes.join(', ')}`);
+    }
+    // Booklets are printed 2-up, which some devices do not offer
+    const numberUp = printer.supportedAttributes?.numberUp ?? [];
+    if (requirements.pageLayout === PageLayout.BOOKLET && numberUp.length > 0 && !numberUp.includes(2)) {
+      throw new BadRequestException(`Printer ${printer.name} does not support booklet printing`);
+    }
+    return printer;
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private toStrings(value: string | number | Array<string | number> | undefined): string[] {
+    return this.toArray(value).map(String);
+  }
+}
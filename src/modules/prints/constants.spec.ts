@@ -0,0 +1,73 @@
+import {
+  ACTIVE_JOB_STATUSES,
+  PRINT_STATUS_TRANSITIONS,
+  PrintRequestStatus,
+  TERMINAL_REQUEST_STATUSES,
+  WEBHOOK_STATUS_TRANSITIONS,
+} from './constants';
+
+const ALL_STATUSES = Object.values(PrintRequestStatus);
+
+describe('print status transitions', () => {
+  it('define the next statuses of every status', () => {
+    expect(Object.keys(PRINT_STATUS_TRANSITIONS).sort()).toEqual([...ALL_STATUSES].sort());
+    expect(Object.keys(WEBHOOK_STATUS_TRANSITIONS).sort()).toEqual([...ALL_STATUSES].sort());
+  });
+
+  it('never list a status as its own transition', () => {
+    for (const status of ALL_STATUSES) {
+      expect(PRINT_STATUS_TRANSITIONS[status]).not.toContain(status);
+      expect(WEBHOOK_STATUS_TRANSITIONS[status]).not.toContain(status);
+    }
+  });
+
+  it('only let failed prints leave a terminal status, and only back into the queue', () => {
+    for (const status of TERMINAL_REQUEST_STATUSES) {
+      const expected = status === PrintRequestStatus.FAILED ? [PrintRequestStatus.QUEUED] : [];
+      expect(PRINT_STATUS_TRANSITIONS[status]).toEqual(expected);
+    }
+  });
+
+  it('can finish every active job', () => {
+    for (const status of ACTIVE_JOB_STATUSES) {
+      expect(PRINT_STATUS_TRANSITIONS[status]).toEqual(
+        expect.arrayContaining([PrintRequestStatus.COMPLETED, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED]),
+      );
+    }
+  });
+
+  it('send prints awaiting approval on only through a decision, expiry or cancellation', () => {
+    expect([...PRINT_STATUS_TRANSITIONS[PrintRequestStatus.AWAITING_APPROVAL]].sort()).toEqual(
+      [
+        PrintRequestStatus.QUEUED,
+        PrintRequestStatus.HELD,
+        PrintRequestStatus.REJECTED,
+        PrintRequestStatus.EXPIRED,
+        PrintRequestStatus.CANCELED,
+      ].sort(),
+    );
+  });
+
+  describe('WEBHOOK_STATUS_TRANSITIONS', () => {
+    it('is a subset of PRINT_STATUS_TRANSITIONS', () => {
+      for (const status of ALL_STATUSES) {
+        for (const next of WEBHOOK_STATUS_TRANSITIONS[status]) {
+          expect(PRINT_STATUS_TRANSITIONS[status]).toContain(next);
+        }
+      }
+    });
+
+    it('cannot touch finished, held or unapproved prints', () => {
+      for (const status of [...TERMINAL_REQUEST_STATUSES, PrintRequestStatus.HELD, PrintRequestStatus.AWAITING_APPROVAL]) {
+        expect(WEBHOOK_STATUS_TRANSITIONS[status]).toEqual([]);
+      }
+    });
+
+    it('cannot skip approval or put prints back into the queue', () => {
+      for (const status of ALL_STATUSES) {
+        expect(WEBHOOK_STATUS_TRANSITIONS[status]).not.toContain(PrintRequestStatus.QUEUED);
+        expect(WEBHOOK_STATUS_TRANSITIONS[status]).not.toContain(PrintRequestStatus.HELD);
+      }
+    });
+  });
+});
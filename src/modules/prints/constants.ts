@@ -1,10 +1,116 @@
 export enum PrintRequestStatus {
-  PENDING = 'pending',
-  SENT_TO_PRINTER = 'sent-to-printer',
+  PENDING = 'pending', // Accepted, not yet in the dispatch queue
+  AWAITING_APPROVAL = 'awaiting-approval', // Matched an approval rule; waits for an approver of the department
+  QUEUED = 'queued', // Waiting in the dispatch queue for its turn on the printer
+  SENT_TO_PRINTER = 'sent-to-printer', // CUPS has the job but has not started it
+  PRINTING = 'printing',
+  HELD = 'held',
   FAILED = 'failed',
   COMPLETED = 'completed',
+  CANCELED = 'canceled',
+  EXPIRED = 'expired',
+  REJECTED = 'rejected',
+}
+
+// Requests in these states will not change again
+export const TERMINAL_REQUEST_STATUSES: PrintRequestStatus[] = [
+  PrintRequestStatus.FAILED,
+  PrintRequestStatus.COMPLETED,
+  PrintRequestStatus.CANCELED,
+  PrintRequestStatus.EXPIRED,
+  PrintRequestStatus.REJECTED,
+];
+
+// Requests in these states may still change on the CUPS side once they have a job ID
+export const ACTIVE_JOB_STATUSES: PrintRequestStatus[] = [
+  PrintRequestStatus.SENT_TO_PRINTER,
+  PrintRequestStatus.PRINTING,
+  PrintRequestStatus.HELD,
+];
+
+/**
+ * Every status change a print may go through; updatePrintStatus rejects anything else, so a late
+ * poll or a replayed webhook cannot move a finished print back. HELD covers both prints waiting for
+ * release (no job ID yet) and jobs held in CUPS, which is why it can lead to QUEUED and SENT_TO_PRINTER.
+ */
+export const PRINT_STATUS_TRANSITIONS: Record<PrintRequestStatus, PrintRequestStatus[]> = {
+  [PrintRequestStatus.PENDING]: [PrintRequestStatus.QUEUED, PrintRequestStatus.AWAITING_APPROVAL, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED],
+  [PrintRequestStatus.AWAITING_APPROVAL]: [
+    PrintRequestStatus.QUEUED,
+    PrintRequestStatus.HELD, // Approved, and submitted for release at the printer
+    PrintRequestStatus.REJECTED,
+    PrintRequestStatus.EXPIRED,
+    PrintRequestStatus.CANCELED,
+  ],
+  [PrintRequestStatus.QUEUED]: [PrintRequestStatus.SENT_TO_PRINTER, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED],
+  [PrintRequestStatus.SENT_TO_PRINTER]: [
+    PrintRequestStatus.PRINTING,
+    PrintRequestStatus.HELD,
+    PrintRequestStatus.COMPLETED,
+    PrintRequestStatus.FAILED,
+    PrintRequestStatus.CANCELED,
+  ],
+  [PrintRequestStatus.PRINTING]: [PrintRequestStatus.HELD, PrintRequestStatus.COMPLETED, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED],
+  [PrintRequestStatus.HELD]: [
+    PrintRequestStatus.QUEUED,
+    PrintRequestStatus.SENT_TO_PRINTER,
+    PrintRequestStatus.PRINTING,
+    PrintRequestStatus.COMPLETED,
+    PrintRequestStatus.FAILED,
+    PrintRequestStatus.CANCELED,
+    PrintRequestStatus.EXPIRED,
+  ],
+  [PrintRequestStatus.FAILED]: [PrintRequestStatus.QUEUED], // Admin retry
+  [PrintRequestStatus.COMPLETED]: [],
+  [PrintRequestStatus.CANCELED]: [],
+  [PrintRequestStatus.EXPIRED]: [],
+  [PrintRequestStatus.REJECTED]: [],
+};
+
+// Who caused a status change, recorded in Print.statusHistory
+export enum PrintStatusSource {
+  USER = 'user', // A request by the submitter, an admin or a kiosk
+  POLLER = 'poller', // CUPS job state from events, the reconcile sweep or the check after submission
+  WEBHOOK = 'webhook', // The signed status webhook
+  SYSTEM = 'system', // The dispatch queue and scheduled sweeps such as hold expiry
+}
+
+// Requests in these states never reached paper and do not count against quotas
+export const QUOTA_EXEMPT_STATUSES: PrintRequestStatus[] = [
+  PrintRequestStatus.FAILED,
+  PrintRequestStatus.CANCELED,
+  PrintRequestStatus.EXPIRED,
+  PrintRequestStatus.REJECTED,
+];
+
+// The part of PRINT_STATUS_TRANSITIONS external sources may report through the status webhook
+export const WEBHOOK_STATUS_TRANSITIONS: Record<PrintRequestStatus, PrintRequestStatus[]> = {
+  [PrintRequestStatus.PENDING]: [PrintRequestStatus.FAILED],
+  [PrintRequestStatus.AWAITING_APPROVAL]: [],
+  [PrintRequestStatus.QUEUED]: [PrintRequestStatus.SENT_TO_PRINTER, PrintRequestStatus.FAILED],
+  [PrintRequestStatus.SENT_TO_PRINTER]: [PrintRequestStatus.PRINTING, PrintRequestStatus.COMPLETED, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED],
+  [PrintRequestStatus.PRINTING]: [PrintRequestStatus.COMPLETED, PrintRequestStatus.FAILED, PrintRequestStatus.CANCELED],
+  [PrintRequestStatus.HELD]: [],
+  [PrintRequestStatus.FAILED]: [],
+  [PrintRequestStatus.COMPLETED]: [],
+  [PrintRequestStatus.CANCELED]: [],
+  [PrintRequestStatus.EXPIRED]: [],
+  [PrintRequestStatus.REJECTED]: [],
+};
+
+export enum ApprovalDecision {
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  EXPIRED = 'expired', // Nobody decided before approval.expiresAt
 }
 
+// Signed webhook requests: HMAC-SHA256 of "<timestamp>.<delivery id>.<raw body>", sent as "sha256=<hex>"
+export const WEBHOOK_SIGNATURE_HEADER = 'x-print-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-print-timestamp';
+export const WEBHOOK_DELIVERY_HEADER = 'x-print-delivery'; // Unique per request; each id is accepted once
+export const WEBHOOK_DELIVERY_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+export const WEBHOOK_TOLERANCE_SECONDS = 300; // Older (or future) timestamps are treated as replays
+
 export enum PrintJobStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
@@ -42,6 +148,14 @@ export enum ColorMode {
 export const VALID_PAPER_SIZES = ['A4', 'A3', 'Letter', 'Legal'] as const;
 export type PaperSize = typeof VALID_PAPER_SIZES[number];
 
+// Portrait width and height in hundredths of a millimetre, as IPP media-size expects
+export const PAPER_SIZE_DIMENSIONS: Record<PaperSize, [number, number]> = {
+  A4: [21000, 29700],
+  A3: [29700, 42000],
+  Letter: [21590, 27940],
+  Legal: [21590, 35560],
+};
+
 export const VALID_FILE_TYPES = [
   'pdf',
   'application/pdf',
@@ -54,15 +168,31 @@ export const VALID_FILE_TYPES = [
 ] as const;
 export type FileType = typeof VALID_FILE_TYPES[number];
 
+export const FILE_EXTENSIONS: Record<FileType, string> = {
+  'pdf': 'pdf',
+  'application/pdf': 'pdf',
+  'doc': 'doc',
+  'application/msword': 'doc',
+  'docx': 'docx',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'xlsx': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
 export const COLLATION_DEFAULT = 'collated';
-export const CUPS_SERVER_IP = '192.168.1.188';
-export const PRINTER_IP = '192.168.1.13';
-export const DEFAULT_PRINTER = 'ricoh-m2701';
-export const UPLOAD_BASE_PATH = '/home/akroid/print_uploads';
-export const CUPS_ADMIN_USERNAME = process.env.CUPS_ADMIN_USERNAME || 'admin';
-export const CUPS_ADMIN_PASSWORD = process.env.CUPS_ADMIN_PASSWORD || '';
-
-export function getPrinters(): string[] {
-  const printers = process.env.PRINTERS?.split(',').map(p => p.trim()) || [DEFAULT_PRINTER];
-  return printers.length > 0 ? printers : [DEFAULT_PRINTER];
-}
\ No newline at end of file
+export const RELEASE_PIN_LENGTH = 6;
+export const HELD_PRINT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+export const SOCKET_REAUTH_INTERVAL_MS = 60 * 1000; // Live-update sockets re-check their token this often
+
+export const PRINT_SORT_FIELDS = ['createdAt', 'updatedAt', 'pagesPrinted', 'pages'] as const;
+export type PrintSortField = typeof PRINT_SORT_FIELDS[number];
+
+export enum DispatchJobStatus {
+  QUEUED = 'queued', // Waiting for its first attempt or for the next retry
+  PROCESSING = 'processing',
+  DEAD = 'dead', // Gave up; the print is FAILED until an admin retries it
+}
+
+export const PRINT_QUEUE_POLL_INTERVAL_MS = 2000;
+export const PRINT_QUEUE_LEASE_MS = 10 * 60 * 1000; // A processing job not finished by then is assumed lost and queued again
+export const PRINT_QUEUE_MAX_BACKOFF_MS = 30 * 60 * 1000;
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ApprovalDecisionDto {
+  @IsOptional()
+  @IsString({ message: 'comment must be a string' })
+  @MaxLength(500, { message: 'comment must be at most 500 characters' })
+  comment?: string; // Shown to the requester
+}
@@ -9,6 +9,8 @@ import {
   IsOptional,
   IsInt,
   Min,
+  MaxLength,
+  ValidateIf,
 } from 'class-validator';
 import {
   Transform,
@@ -23,9 +25,9 @@ import {
   Margin,
   VALID_PAPER_SIZES,
   VALID_FILE_TYPES,
-  getPrinters,
   PaperSize,
 } from '../constants';
+import { normalizePageRanges, PAGE_RANGES_PATTERN } from '../page-ranges';
 
 // Normalizer for enums and constants (paper size, file type, etc.)
 const toLower = (val: unknown): string | undefined =>
@@ -41,13 +43,18 @@ const PAPER_SIZE_MAP: Record<string, PaperSize> = {
 
 // Main DTO
 export class CreatePrintRequestDto {
-  @IsString({ message: 'Employee ID must be a string' })
-  @IsNotEmpty({ message: 'Employee ID is required' })
-  employeeId: string;
+  // The submitter is taken from the token; admins and kiosk accounts may name another employee instead
+  @IsOptional()
+  @IsString({ message: 'onBehalfOf must be a string' })
+  @IsNotEmpty({ message: 'onBehalfOf must not be empty' })
+  @Transform(({ value }: TransformFnParams) => (typeof value === 'string' ? value.trim() : undefined))
+  onBehalfOf?: string;
 
-  @IsString({ message: 'Employee name must be a string' })
-  @IsNotEmpty({ message: 'Employee name is required' })
-  employeeName: string;
+  @ValidateIf((dto: CreatePrintRequestDto) => dto.onBehalfOf !== undefined)
+  @IsString({ message: 'onBehalfOfReason must be a string' })
+  @IsNotEmpty({ message: 'onBehalfOfReason is required when printing on behalf of someone else' })
+  @MaxLength(500, { message: 'onBehalfOfReason must be at most 500 characters' })
+  onBehalfOfReason?: string;
 
   @IsString({ message: 'File type must be a string' })
   @IsNotEmpty({ message: 'File type is required' })
@@ -61,11 +68,7 @@ export class CreatePrintRequestDto {
   @IsString({ message: 'Printer must be a string' })
   @IsNotEmpty({ message: 'Printer is required' })
   @Transform(({ value }: TransformFnParams) => toLower(value))
-  @IsIn(getPrinters(), {
-    message: ({ value }) =>
-      `Invalid printer: ${value}. Must be one of: ${getPrinters().join(', ')}`,
-  })
-  printer: string;
+  printer: string; // Checked against the printer registry in createPrint
 
   @IsString({ message: 'Paper size must be a string' })
   @IsOptional()
@@ -146,10 +149,11 @@ export class CreatePrintRequestDto {
 
   @IsString({ message: 'Pages to print must be a string' })
   @IsNotEmpty({ message: 'Pages to print is required' })
-  @Matches(/^(?:all|\d+)$/, {
-    message: 'Pages to print must be "all" or a positive integer (e.g., "1")',
+  @Transform(({ value }: TransformFnParams) => (typeof value === 'string' ? normalizePageRanges(value) : undefined))
+  @Matches(PAGE_RANGES_PATTERN, {
+    message: 'Pages to print must be "all" or pages and ranges such as "1-3,7,10-12"',
   })
-  pagesToPrint: string;
+  pagesToPrint: string; // Checked against the document's page count in createPrint
 
   @IsOptional()
   @IsInt({ message: 'sheetsFrom must be an integer' })
@@ -161,6 +165,11 @@ export class CreatePrintRequestDto {
   @Min(1, { message: 'sheetsTo must be at least 1' })
   sheetsTo?: number;
 
+  @IsOptional()
+  @Transform(({ value }: TransformFnParams) => value === true || value === 'true')
+  @IsBoolean({ message: 'holdForRelease must be a boolean' })
+  holdForRelease: boolean = false;
+
   @IsNotEmpty({ message: 'File is required' })
   file?: {
     buffer: Buffer;
@@ -0,0 +1,35 @@
+import { IsEnum, IsInt, IsISO8601, IsMongoId, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { PrintRequestStatus } from '../constants';
+
+export class PrintStatusWebhookDto {
+  @IsMongoId({ message: 'printId must be a print ID' })
+  printId: string;
+
+  @IsEnum(PrintRequestStatus, { message: `requestStatus must be one of: ${Object.values(PrintRequestStatus).join(', ')}` })
+  requestStatus: PrintRequestStatus;
+
+  // Who is reporting, e.g. "cups-notifier" or "ricoh-m2701-script"; stored with the print
+  @IsString()
+  @IsNotEmpty({ message: 'source is required' })
+  @MaxLength(100)
+  source: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  jobId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  errorMessage?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  pagesPrinted?: number;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'occurredAt must be an ISO 8601 date' })
+  occurredAt?: string; // Defaults to the time the webhook was received
+}
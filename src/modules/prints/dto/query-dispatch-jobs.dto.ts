@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { DispatchJobStatus } from '../constants';
+
+export class QueryDispatchJobsDto {
+  @IsOptional()
+  @IsEnum(DispatchJobStatus, { message: 'status must be one of: queued, processing, dead' })
+  status?: DispatchJobStatus;
+
+  @IsOptional()
+  @IsString()
+  printer?: string;
+}
@@ -0,0 +1,61 @@
+import { IsDate, IsEnum, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ColorMode, PRINT_SORT_FIELDS, PrintRequestStatus, PrintSortField } from '../constants';
+
+export class QueryPrintsDto {
+  // Accepts a single status or a comma-separated list, e.g. ?requestStatus=failed,canceled
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.split(',').map((status) => status.trim()).filter(Boolean) : value))
+  @IsEnum(PrintRequestStatus, { each: true, message: `requestStatus must be one of: ${Object.values(PrintRequestStatus).join(', ')}` })
+  requestStatus?: PrintRequestStatus[];
+
+  @IsOptional()
+  @IsString()
+  printer?: string;
+
+  @IsOptional()
+  @IsString()
+  employeeId?: string;
+
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @IsOptional()
+  @IsString()
+  fileType?: string;
+
+  @IsOptional()
+  @IsEnum(ColorMode, { message: 'isColor must be one of: grayscale, color' })
+  isColor?: ColorMode;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'from must be a valid date' })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'to must be a valid date' })
+  to?: Date;
+
+  @IsOptional()
+  @IsIn(PRINT_SORT_FIELDS, { message: `sortBy must be one of: ${PRINT_SORT_FIELDS.join(', ')}` })
+  sortBy: PrintSortField = 'createdAt';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'], { message: 'sortOrder must be asc or desc' })
+  sortOrder: 'asc' | 'desc' = 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+
+  // Opaque value taken from nextCursor of the previous page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
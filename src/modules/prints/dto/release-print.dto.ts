@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { Transform, TransformFnParams } from 'class-transformer';
+import { RELEASE_PIN_LENGTH } from '../constants';
+
+export class ReleasePrintDto {
+  @IsString({ message: 'PIN must be a string' })
+  @Matches(new RegExp(`^\\d{${RELEASE_PIN_LENGTH}}$`), {
+    message: `PIN must be ${RELEASE_PIN_LENGTH} digits`,
+  })
+  pin: string;
+
+  @IsString({ message: 'Printer must be a string' })
+  @IsNotEmpty({ message: 'Printer is required' })
+  @Transform(({ value }: TransformFnParams) => (typeof value === 'string' ? value.trim().toLowerCase() : undefined))
+  printer: string;
+}
@@ -0,0 +1,29 @@
+import { IsBoolean, IsEnum, IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+import { Transform, TransformFnParams } from 'class-transformer';
+import { Sides } from '../constants';
+
+// Anything left out is copied from the original print
+export class ReprintPrintDto {
+  @IsOptional()
+  @IsInt({ message: 'Copies must be an integer' })
+  @Min(1, { message: 'Copies must be at least 1' })
+  copies?: number;
+
+  @IsOptional()
+  @IsString({ message: 'Printer must be a string' })
+  @IsNotEmpty({ message: 'Printer must not be empty' })
+  @Transform(({ value }: TransformFnParams) => (typeof value === 'string' ? value.trim().toLowerCase() : undefined))
+  printer?: string;
+
+  @IsOptional()
+  @IsEnum(Sides, { message: 'Sides must be one of: single-sided, double-sided' })
+  sides?: Sides;
+
+  @IsOptional()
+  @IsBoolean({ message: 'isColor must be a boolean' })
+  isColor?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'holdForRelease must be a boolean' })
+  holdForRelease?: boolean;
+}
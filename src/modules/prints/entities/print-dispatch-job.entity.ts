@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DispatchJobStatus } from '../constants';
+
+// One entry per print waiting to be sent to CUPS; removed once the print has been handed over
+@Schema({ collection: 'print_dispatch_jobs', timestamps: true })
+export class PrintDispatchJob extends Document {
+  @Prop({ required: true, unique: true })
+  printId: string;
+
+  @Prop({ required: true })
+  printer: string;
+
+  @Prop({ required: true, enum: DispatchJobStatus, default: DispatchJobStatus.QUEUED })
+  status: DispatchJobStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  nextAttemptAt: Date;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PrintDispatchJobSchema = SchemaFactory.createForClass(PrintDispatchJob);
+
+PrintDispatchJobSchema.index({ status: 1, printer: 1, nextAttemptAt: 1 });
@@ -0,0 +1,15 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { WEBHOOK_TOLERANCE_SECONDS } from '../constants';
+
+// Delivery ids of accepted webhook requests, kept long enough to reject replays inside the timestamp window
+@Schema({ collection: 'print_webhook_deliveries' })
+export class PrintWebhookDelivery extends Document {
+  @Prop({ required: true, unique: true })
+  deliveryId: string;
+
+  @Prop({ required: true, default: Date.now, expires: WEBHOOK_TOLERANCE_SECONDS * 2 })
+  receivedAt: Date;
+}
+
+export const PrintWebhookDeliverySchema = SchemaFactory.createForClass(PrintWebhookDelivery);
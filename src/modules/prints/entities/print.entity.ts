@@ -1,6 +1,59 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
-import { ColorMode, Sides, Orientation, PageLayout, Margin, PrintRequestStatus } from '../constants';
+import { ColorMode, Sides, Orientation, PageLayout, Margin, PrintRequestStatus, PrintStatusSource, ApprovalDecision, PRINT_SORT_FIELDS } from '../constants';
+
+// One entry per status change; entries are only ever appended
+@Schema({ _id: false })
+export class PrintStatusChange {
+  @Prop({ required: true, enum: PrintRequestStatus })
+  status: PrintRequestStatus;
+
+  @Prop({ enum: PrintRequestStatus })
+  from?: PrintRequestStatus; // Unset on the entry written when the print was created
+
+  @Prop({ required: true })
+  at: Date;
+
+  @Prop({ required: true, enum: PrintStatusSource })
+  source: PrintStatusSource;
+
+  @Prop()
+  actor?: string; // Employee ID for user changes, the reporting system's name for webhook changes
+
+  @Prop({ type: [String], default: undefined })
+  jobStateReasons?: string[]; // IPP job-state-reasons reported with the change
+
+  @Prop()
+  message?: string;
+}
+
+export const PrintStatusChangeSchema = SchemaFactory.createForClass(PrintStatusChange);
+
+@Schema({ _id: false })
+export class PrintApproval {
+  @Prop({ type: [String], default: [] })
+  reasons: string[]; // The approval rules the print matched
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ default: false })
+  holdForRelease: boolean; // Approved prints go to HELD instead of the dispatch queue
+
+  @Prop({ enum: ApprovalDecision })
+  decision?: ApprovalDecision;
+
+  @Prop()
+  decidedBy?: string;
+
+  @Prop()
+  decidedAt?: Date;
+
+  @Prop()
+  comment?: string;
+}
+
+export const PrintApprovalSchema = SchemaFactory.createForClass(PrintApproval);
 
 @Schema({ timestamps: true })
 export class Print extends Document {
@@ -12,6 +65,9 @@ export class Print extends Document {
   @Prop({ required: true })
   employeeName: string;
 
+  @Prop()
+  department?: string;
+
   @Prop({ required: true })
   fileName: string;
 
@@ -54,9 +110,48 @@ export class Print extends Document {
   @Prop({ default: 0 })
   pages: number;
 
+  @Prop({ default: 0 })
+  estimatedPages: number; // Pages per copy * copies, computed at submission
+
+  @Prop({ default: 0 })
+  sheets: number; // Estimated at submission, replaced by the printer's count on completion
+
+  @Prop({ default: 0 })
+  impressions: number; // Printed sides; estimated at submission like sheets
+
+  @Prop()
+  estimatedCost?: number;
+
+  @Prop()
+  actualCost?: number; // Priced when the job completes
+
+  @Prop()
+  currency?: string;
+
+  @Prop()
+  quotaRemaining?: number; // Monthly quota balance after this request; unset when unlimited
+
   @Prop()
   jobId?: string;
 
+  @Prop()
+  fileKey?: string; // Key of the stored document in the storage backend
+
+  @Prop()
+  fileDeletedAt?: Date; // Set once the stored file was removed by retention or hold expiry
+
+  @Prop()
+  parentPrintId?: string; // Set on reprints to the print whose stored file was reused
+
+  @Prop({ type: PrintApprovalSchema })
+  approval?: PrintApproval; // Only set on prints that matched an approval rule
+
+  @Prop({ select: false })
+  releasePin?: string; // Only returned to the submitter; held prints are released with it at the printer
+
+  @Prop()
+  releaseExpiresAt?: Date;
+
   @Prop()
   jobStartTime?: string;
 
@@ -66,6 +161,15 @@ export class Print extends Document {
   @Prop()
   errorMessage?: string;
 
+  @Prop({ type: [PrintStatusChangeSchema], default: [] })
+  statusHistory: PrintStatusChange[];
+
+  @Prop()
+  submittedBy?: string; // Employee ID of the admin or kiosk account that printed on behalf of employeeId
+
+  @Prop()
+  onBehalfOfReason?: string;
+
   @Prop({ required: true })
   createdBy: string;
 
@@ -77,4 +181,18 @@ export class Print extends Document {
 }
 
 export type PrintDocument = Print & Document;
-export const PrintSchema = SchemaFactory.createForClass(Print);
\ No newline at end of file
+export const PrintSchema = SchemaFactory.createForClass(Print);
+
+// History queries filter on one of these fields and page through createdAt; the plain createdAt index serves unfiltered listings
+PrintSchema.index({ createdAt: -1, _id: -1 });
+PrintSchema.index({ employeeId: 1, createdAt: -1, _id: -1 });
+PrintSchema.index({ requestStatus: 1, createdAt: -1, _id: -1 });
+PrintSchema.index({ printer: 1, createdAt: -1, _id: -1 });
+PrintSchema.index({ department: 1, createdAt: -1, _id: -1 });
+// The other sortBy fields, for unfiltered listings and an employee's own history
+for (const field of PRINT_SORT_FIELDS.filter((sortField) => sortField !== 'createdAt')) {
+  PrintSchema.index({ [field]: -1, _id: -1 });
+  PrintSchema.index({ employeeId: 1, [field]: -1, _id: -1 });
+}
+// Job event lookups from CUPS notifications
+PrintSchema.index({ printer: 1, jobId: 1 });
@@ -0,0 +1,23 @@
+import { getStoredFileKey } from './file-keys';
+
+describe('getStoredFileKey', () => {
+  const legacyPrint = {
+    _id: '665f1c2e9b1d4a0012345678',
+    employeeId: 'E001',
+    fileType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    createdAt: new Date('2025-01-31T23:59:58.000Z'),
+  };
+
+  it('uses the stored fileKey when there is one', () => {
+    expect(getStoredFileKey({ ...legacyPrint, fileKey: 'E001/2025-02-01/other.pdf' })).toBe('E001/2025-02-01/other.pdf');
+  });
+
+  it('derives the upload path of prints saved before fileKey existed', () => {
+    expect(getStoredFileKey(legacyPrint)).toBe('E001/2025-01-31/665f1c2e9b1d4a0012345678.docx');
+    expect(getStoredFileKey({ ...legacyPrint, fileType: 'pdf' })).toBe('E001/2025-01-31/665f1c2e9b1d4a0012345678.pdf');
+  });
+
+  it('gives up on unknown file types', () => {
+    expect(getStoredFileKey({ ...legacyPrint, fileType: 'image/png' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+import * as path from 'path';
+import { FILE_EXTENSIONS, FileType } from './constants';
+
+export interface StoredFileRef {
+  _id: { toString(): string };
+  employeeId: string;
+  fileType: string;
+  fileKey?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Storage key of a print's file. Prints saved before `fileKey` existed were written to
+ * `<employeeId>/<YYYY-MM-DD>/<printId>.<ext>` under the upload directory, dated on the day (UTC)
+ * they were created, which is the same layout the storage backends use as keys.
+ */
+export function getStoredFileKey(print: StoredFileRef): string | undefined {
+  if (print.fileKey) {
+    return print.fileKey;
+  }
+  const extension = FILE_EXTENSIONS[print.fileType?.toLowerCase().trim() as FileType];
+  if (!extension || !print.createdAt) {
+    return undefined;
+  }
+  const date = new Date(print.createdAt).toISOString().split('T')[0];
+  return path.posix.join(print.employeeId, date, `${print._id.toString()}.${extension}`);
+}
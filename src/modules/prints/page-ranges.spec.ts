@@ -0,0 +1,54 @@
+import { formatPageRanges, normalizePageRanges, parsePageRanges, toPageRangePairs } from './page-ranges';
+
+describe('page ranges', () => {
+  describe('normalizePageRanges', () => {
+    it('drops whitespace and lowercases', () => {
+      expect(normalizePageRanges(' 1 - 3, 7 ')).toBe('1-3,7');
+      expect(normalizePageRanges('ALL')).toBe('all');
+    });
+  });
+
+  describe('parsePageRanges', () => {
+    it('expands pages and ranges into sorted unique page numbers', () => {
+      expect(parsePageRanges('7,1-3,2-4')).toEqual([1, 2, 3, 4, 7]);
+      expect(parsePageRanges('5')).toEqual([5]);
+    });
+
+    it('expands "all" to every page of the document', () => {
+      expect(parsePageRanges('all', 3)).toEqual([1, 2, 3]);
+      expect(() => parsePageRanges('all')).toThrow('page count is required');
+    });
+
+    it('rejects malformed expressions', () => {
+      expect(() => parsePageRanges('1-')).toThrow('Invalid page range');
+      expect(() => parsePageRanges('a,b')).toThrow('Invalid page range');
+      expect(() => parsePageRanges('')).toThrow('Invalid page range');
+    });
+
+    it('rejects page 0 and ranges that go down', () => {
+      expect(() => parsePageRanges('0-2')).toThrow('pages start at 1');
+      expect(() => parsePageRanges('5-3')).toThrow('ranges must go upwards');
+    });
+
+    it('rejects pages beyond the end of the document', () => {
+      expect(parsePageRanges('1-4', 4)).toEqual([1, 2, 3, 4]);
+      expect(() => parsePageRanges('3-5', 4)).toThrow('which has 4 pages');
+      expect(() => parsePageRanges('2', 1)).toThrow('which has 1 page');
+    });
+  });
+
+  describe('toPageRangePairs', () => {
+    it('groups consecutive pages into inclusive ranges', () => {
+      expect(toPageRangePairs([7, 1, 2, 3, 3, 9, 10])).toEqual([[1, 3], [7, 7], [9, 10]]);
+      expect(toPageRangePairs([])).toEqual([]);
+    });
+  });
+
+  describe('formatPageRanges', () => {
+    it('writes the shortest expression that parses back to the same pages', () => {
+      const pages = [1, 2, 3, 7, 10, 11, 12];
+      expect(formatPageRanges(pages)).toBe('1-3,7,10-12');
+      expect(parsePageRanges(formatPageRanges(pages))).toEqual(pages);
+    });
+  });
+});
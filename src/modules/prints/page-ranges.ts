@@ -0,0 +1,64 @@
+// Page-range expressions as accepted by `pagesToPrint`: "all" or a comma separated list of pages
+// and inclusive ranges, e.g. "1-3,7,10-12". They reach CUPS as the IPP page-ranges attribute.
+
+export const ALL_PAGES = 'all';
+export const PAGE_RANGES_PATTERN = /^(?:all|\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*)$/;
+
+export function normalizePageRanges(expression: string): string {
+  return expression.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Expands an expression into the sorted, de-duplicated list of 1-based page numbers it selects.
+ * With `pageCount` every page must exist in the document. Throws on malformed or empty ranges.
+ */
+export function parsePageRanges(expression: string, pageCount?: number): number[] {
+  const normalized = normalizePageRanges(expression);
+  if (normalized === ALL_PAGES) {
+    if (pageCount === undefined) {
+      throw new Error('The page count is required to expand "all"');
+    }
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+  if (!PAGE_RANGES_PATTERN.test(normalized)) {
+    throw new Error(`Invalid page range "${expression}". Use pages and ranges such as "1-3,7,10-12"`);
+  }
+
+  const pages = new Set<number>();
+  for (const part of normalized.split(',')) {
+    const [start, end = start] = part.split('-').map((n) => parseInt(n, 10));
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range "${part}": pages start at 1 and ranges must go upwards`);
+    }
+    if (pageCount !== undefined && end > pageCount) {
+      throw new Error(`Page range "${part}" is outside the document, which has ${pageCount} page${pageCount === 1 ? '' : 's'}`);
+    }
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+// Groups page numbers into inclusive ranges, e.g. [1, 2, 3, 7] -> [[1, 3], [7, 7]], as IPP page-ranges expects
+export function toPageRangePairs(pages: number[]): Array<[number, number]> {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: Array<[number, number]> = [];
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) {
+      j++;
+    }
+    ranges.push([sorted[i], sorted[j]]);
+    i = j + 1;
+  }
+  return ranges;
+}
+
+// Collapses page numbers back into the shortest expression, e.g. [1, 2, 3, 7] -> "1-3,7"
+export function formatPageRanges(pages: number[]): string {
+  return toPageRangePairs(pages)
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(',');
+}
@@ -0,0 +1,229 @@
+import { Model } from 'mongoose';
+import { ConfigService } from 'src/config/config.service';
+import { PrintersService } from '../printers/printers.service';
+import { DispatchJobStatus, PRINT_QUEUE_LEASE_MS, PRINT_QUEUE_MAX_BACKOFF_MS } from './constants';
+import { PrintDispatchJob } from './entities/print-dispatch-job.entity';
+import { DispatchFailure, PermanentDispatchError, PrintQueueService } from './print-queue.service';
+
+interface StoredJob {
+  _id: string;
+  printId: string;
+  printer: string;
+  status: DispatchJobStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+}
+
+type Filter = Record<string, unknown>;
+interface Update {
+  $set?: Partial<StoredJob>;
+  $setOnInsert?: Partial<StoredJob>;
+  $unset?: Record<string, 1>;
+  $inc?: { attempts: number };
+}
+
+// Equality plus the $lt/$lte/$ne operators PrintQueueService filters with
+const matches = (job: StoredJob, filter: Filter) =>
+  Object.entries(filter).every(([field, condition]) => {
+    const value = job[field as keyof StoredJob];
+    if (condition instanceof Date || typeof condition !== 'object' || condition === null) {
+      return value?.valueOf() === condition?.valueOf();
+    }
+    const { $lt, $lte, $ne } = condition as { $lt?: Date; $lte?: Date; $ne?: unknown };
+    if (value === undefined) {
+      return $ne !== undefined;
+    }
+    return ($lt === undefined || value < $lt) && ($lte === undefined || value <= $lte) && ($ne === undefined || value !== $ne);
+  });
+
+const settle = async () => {
+  for (let tick = 0; tick < 20; tick++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+describe('PrintQueueService', () => {
+  let jobs: StoredJob[];
+  let dispatchConcurrency: number | undefined;
+  let handler: jest.Mock<Promise<void>, [string]>;
+  let failures: DispatchFailure[];
+  let config: { printQueueConcurrency: number; printQueueMaxAttempts: number; printQueueRetryBaseSeconds: number };
+  let queue: PrintQueueService;
+
+  const job = (id: string) => jobs.find((stored) => stored.printId === id);
+
+  beforeEach(() => {
+    jobs = [];
+    dispatchConcurrency = undefined;
+    failures = [];
+    handler = jest.fn<Promise<void>, [string]>(() => Promise.resolve());
+
+    const apply = (stored: StoredJob, update: Update) => {
+      Object.assign(stored, update.$set);
+      Object.keys(update.$unset ?? {}).forEach((field) => delete stored[field as keyof StoredJob]);
+      stored.attempts += update.$inc?.attempts ?? 0;
+      return stored;
+    };
+    const exec = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+
+    const jobModel = {
+      updateOne: jest.fn((filter: Filter, update: Update, options?: { upsert?: boolean }) => {
+        const stored = jobs.find((candidate) => matches(candidate, filter));
+        if (stored) {
+          apply(stored, update);
+        } else if (options?.upsert) {
+          jobs.push(apply({ _id: `job-${jobs.length}`, ...filter, ...update.$setOnInsert } as StoredJob, { ...update, $setOnInsert: undefined }));
+        }
+        return exec({ modifiedCount: stored ? 1 : 0 });
+      }),
+      updateMany: jest.fn((filter: Filter, update: Update) => {
+        const matched = jobs.filter((candidate) => matches(candidate, filter));
+        matched.forEach((stored) => apply(stored, update));
+        return exec({ modifiedCount: matched.length });
+      }),
+      deleteOne: jest.fn((filter: Filter) => {
+        const index = jobs.findIndex((candidate) => matches(candidate, filter));
+        if (index >= 0) {
+          jobs.splice(index, 1);
+        }
+        return exec({ deletedCount: index >= 0 ? 1 : 0 });
+      }),
+      distinct: jest.fn((field: 'printer', filter: Filter) =>
+        exec([...new Set(jobs.filter((candidate) => matches(candidate, filter)).map((stored) => stored[field]))])),
+      countDocuments: jest.fn((filter: Filter) => exec(jobs.filter((candidate) => matches(candidate, filter)).length)),
+      findOneAndUpdate: jest.fn((filter: Filter, update: Update) => {
+        const [stored] = jobs
+          .filter((candidate) => matches(candidate, filter))
+          .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime());
+        return exec(stored ? { ...apply(stored, update) } : null);
+      }),
+    };
+    const printersService = {
+      getPrinterByName: jest.fn(() => Promise.resolve({ dispatchConcurrency })),
+    } as unknown as PrintersService;
+    config = { printQueueConcurrency: 1, printQueueMaxAttempts: 3, printQueueRetryBaseSeconds: 10 };
+
+    queue = new PrintQueueService(jobModel as unknown as Model<PrintDispatchJob>, printersService, config as ConfigService);
+    queue.failures$.subscribe((failure) => failures.push(failure));
+  });
+
+  afterEach(() => queue.onModuleDestroy());
+
+  it('hands queued prints to the handler and drops them once dispatched', async () => {
+    await queue.enqueue('print-1', 'floor-1');
+    queue.registerHandler(handler);
+    await settle();
+
+    expect(handler).toHaveBeenCalledWith('print-1');
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('runs no more jobs per printer than its dispatch concurrency', async () => {
+    dispatchConcurrency = 2;
+    const pending: Array<() => void> = [];
+    handler.mockImplementation(() => new Promise((resolve) => pending.push(resolve)));
+    for (const printId of ['print-1', 'print-2', 'print-3']) {
+      await queue.enqueue(printId, 'floor-1');
+    }
+    await queue.enqueue('print-4', 'floor-2');
+
+    queue.registerHandler(handler);
+    await settle();
+    expect(handler.mock.calls.map(([printId]) => printId)).toEqual(['print-1', 'print-2', 'print-4']);
+
+    pending[0]();
+    await settle();
+    expect(handler).toHaveBeenLastCalledWith('print-3');
+  });
+
+  it('retries a failed dispatch with exponential backoff', async () => {
+    handler.mockRejectedValue(new Error('printer offline'));
+    await queue.enqueue('print-1', 'floor-1');
+    const before = Date.now();
+    queue.registerHandler(handler);
+    await settle();
+
+    expect(job('print-1')).toMatchObject({ status: DispatchJobStatus.QUEUED, attempts: 1, lastError: 'printer offline' });
+    expect(job('print-1')?.lockedUntil).toBeUndefined();
+    expect(job('print-1')!.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(10_000);
+    expect(failures).toEqual([expect.objectContaining({ printId: 'print-1', attempts: 1, nextAttemptAt: job('print-1')!.nextAttemptAt })]);
+
+    job('print-1')!.nextAttemptAt = new Date();
+    await queue.processQueue();
+    await settle();
+    expect(job('print-1')!.nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(19_000);
+  });
+
+  it('caps the backoff', async () => {
+    handler.mockRejectedValue(new Error('printer offline'));
+    jobs.push({ _id: 'job-0', printId: 'print-1', printer: 'floor-1', status: DispatchJobStatus.QUEUED, attempts: 1, nextAttemptAt: new Date() });
+    config.printQueueMaxAttempts = 10;
+    config.printQueueRetryBaseSeconds = 3600;
+
+    queue.registerHandler(handler);
+    await settle();
+    const backoffMs = job('print-1')!.nextAttemptAt.getTime() - Date.now();
+    expect(backoffMs).toBeLessThanOrEqual(PRINT_QUEUE_MAX_BACKOFF_MS);
+    expect(backoffMs).toBeGreaterThan(PRINT_QUEUE_MAX_BACKOFF_MS - 1000);
+  });
+
+  it('parks a job as dead after the last attempt or a permanent failure', async () => {
+    handler.mockImplementation((printId) =>
+      Promise.reject(printId === 'print-1' ? new Error('printer offline') : new PermanentDispatchError('cannot convert document')));
+    jobs.push({ _id: 'job-0', printId: 'print-1', printer: 'floor-1', status: DispatchJobStatus.QUEUED, attempts: 2, nextAttemptAt: new Date() });
+    await queue.enqueue('print-2', 'floor-2');
+
+    queue.registerHandler(handler);
+    await settle();
+
+    expect(job('print-1')).toMatchObject({ status: DispatchJobStatus.DEAD, attempts: 3 });
+    expect(job('print-2')).toMatchObject({ status: DispatchJobStatus.DEAD, attempts: 1, lastError: 'cannot convert document' });
+    expect(failures.every((failure) => failure.nextAttemptAt === undefined)).toBe(true);
+  });
+
+  it('takes back jobs whose lease ran out', async () => {
+    jobs.push({
+      _id: 'job-0',
+      printId: 'print-1',
+      printer: 'floor-1',
+      status: DispatchJobStatus.PROCESSING,
+      attempts: 1,
+      nextAttemptAt: new Date(Date.now() - PRINT_QUEUE_LEASE_MS),
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+
+    queue.registerHandler(handler);
+    await settle();
+    expect(handler).toHaveBeenCalledWith('print-1');
+  });
+
+  it('leaves a job that is being dispatched when its print is removed', async () => {
+    let finish: () => void = () => undefined;
+    handler.mockImplementation(() => new Promise((resolve) => (finish = resolve)));
+    await queue.enqueue('print-1', 'floor-1');
+    await queue.enqueue('print-2', 'floor-1');
+    queue.registerHandler(handler);
+    await settle();
+
+    await queue.remove('print-1');
+    await queue.remove('print-2');
+    expect(jobs.map((stored) => stored.printId)).toEqual(['print-1']);
+
+    finish();
+    await settle();
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('re-queues a dead job with a fresh attempt count', async () => {
+    jobs.push({ _id: 'job-0', printId: 'print-1', printer: 'floor-1', status: DispatchJobStatus.DEAD, attempts: 3, nextAttemptAt: new Date(0), lastError: 'printer offline' });
+
+    await queue.enqueue('print-1', 'floor-1');
+    expect(job('print-1')).toMatchObject({ status: DispatchJobStatus.QUEUED, attempts: 0 });
+    expect(job('print-1')?.lastError).toBeUndefined();
+
+    await queue.ensureQueued('print-1', 'floor-2');
+    expect(job('print-1')?.printer).toBe('floor-1');
+  });
+});
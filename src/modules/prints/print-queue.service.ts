@@ -0,0 +1,188 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Subject } from 'rxjs';
+import { PrintDispatchJob } from './entities/print-dispatch-job.entity';
+import { DispatchJobStatus, PRINT_QUEUE_LEASE_MS, PRINT_QUEUE_MAX_BACKOFF_MS, PRINT_QUEUE_POLL_INTERVAL_MS } from './constants';
+import { PrintersService } from '../printers/printers.service';
+import { ConfigService } from 'src/config/config.service';
+
+export type DispatchHandler = (printId: string) => Promise<void>;
+
+export interface DispatchFailure {
+  printId: string;
+  attempts: number;
+  error: string;
+  nextAttemptAt?: Date; // Not set when the job was moved to the dead-letter state
+}
+
+// Thrown by the dispatch handler for failures a retry cannot fix, such as a document that does not convert
+export class PermanentDispatchError extends Error { }
+
+/**
+ * Durable dispatch queue backed by the print_dispatch_jobs collection. Jobs survive restarts, each
+ * printer gets a bounded number of concurrent dispatches, transient failures are retried with
+ * exponential backoff and jobs that keep failing are parked as DEAD until an admin retries them.
+ */
+@Injectable()
+export class PrintQueueService implements OnModuleInit, OnModuleDestroy {
+  private logger = new Logger('PrintQueueService');
+  private pollTimer?: NodeJS.Timeout;
+  private handler?: DispatchHandler;
+  private polling = false;
+
+  readonly failures$ = new Subject<DispatchFailure>();
+
+  constructor(
+    @InjectModel(PrintDispatchJob.name) private readonly jobModel: Model<PrintDispatchJob>,
+    private readonly printersService: PrintersService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  onModuleInit() {
+    this.pollTimer = setInterval(() => void this.processQueue(), PRINT_QUEUE_POLL_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.failures$.complete();
+  }
+
+  registerHandler(handler: DispatchHandler): void {
+    this.handler = handler;
+    void this.processQueue();
+  }
+
+  // Queues the print, or puts an existing (e.g. dead) job back at the front with a fresh attempt count
+  async enqueue(printId: string, printer: string): Promise<void> {
+    await this.jobModel
+      .updateOne(
+        { printId },
+        {
+          $set: { printer, status: DispatchJobStatus.QUEUED, attempts: 0, nextAttemptAt: new Date() },
+          $unset: { lockedUntil: 1, lastError: 1 },
+        },
+        { upsert: true },
+      )
+      .exec();
+    void this.processQueue();
+  }
+
+  // Leaves an existing job alone
+  async ensureQueued(printId: string, printer: string): Promise<void> {
+    await this.jobModel
+      .updateOne(
+        { printId },
+        { $setOnInsert: { printer, status: DispatchJobStatus.QUEUED, attempts: 0, nextAttemptAt: new Date() } },
+        { upsert: true },
+      )
+      .exec();
+  }
+
+  async remove(printId: string): Promise<void> {
+    await this.jobModel.deleteOne({ printId, status: { $ne: DispatchJobStatus.PROCESSING } }).exec();
+  }
+
+  async getJobs(status?: DispatchJobStatus, printer?: string): Promise<PrintDispatchJob[]> {
+    return this.jobModel
+      .find({ ...(status ? { status } : {}), ...(printer ? { printer: printer.trim().toLowerCase() } : {}) })
+      .sort({ nextAttemptAt: 1 })
+      .limit(500)
+      .exec();
+  }
+
+  async processQueue(): Promise<void> {
+    if (this.polling || !this.handler) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const now = new Date();
+      // Another instance (or this one before a restart) took these and never finished
+      await this.jobModel
+        .updateMany(
+          { status: DispatchJobStatus.PROCESSING, lockedUntil: { $lt: now } },
+          { $set: { status: DispatchJobStatus.QUEUED, nextAttemptAt: now }, $unset: { lockedUntil: 1 } },
+        )
+        .exec();
+
+      const printers = await this.jobModel.distinct('printer', { status: DispatchJobStatus.QUEUED, nextAttemptAt: { $lte: now } }).exec();
+      for (const printer of printers) {
+        const concurrency = await this.getConcurrency(printer);
+        const running = await this.jobModel.countDocuments({ status: DispatchJobStatus.PROCESSING, printer }).exec();
+        for (let slot = running; slot < concurrency; slot++) {
+          const job = await this.claim(printer);
+          if (!job) {
+            break;
+          }
+          void this.runJob(job);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process the print queue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claim(printer: string): Promise<PrintDispatchJob | null> {
+    const now = new Date();
+    return this.jobModel
+      .findOneAndUpdate(
+        { status: DispatchJobStatus.QUEUED, printer, nextAttemptAt: { $lte: now } },
+        {
+          $set: { status: DispatchJobStatus.PROCESSING, lockedUntil: new Date(now.getTime() + PRINT_QUEUE_LEASE_MS) },
+          $inc: { attempts: 1 },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true },
+      )
+      .exec();
+  }
+
+  private async runJob(job: PrintDispatchJob): Promise<void> {
+    try {
+      await (this.handler as DispatchHandler)(job.printId);
+      await this.jobModel.deleteOne({ _id: job._id }).exec();
+    } catch (error) {
+      await this.handleFailure(job, error).catch((updateError: unknown) => {
+        this.logger.error(`Failed to record dispatch failure of print ${job.printId}: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
+      });
+    } finally {
+      // A slot just freed up on this printer
+      void this.processQueue();
+    }
+  }
+
+  private async handleFailure(job: PrintDispatchJob, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const maxAttempts = this.configService.printQueueMaxAttempts;
+    const retryable = !(error instanceof PermanentDispatchError) && job.attempts < maxAttempts;
+
+    if (!retryable) {
+      await this.jobModel
+        .updateOne({ _id: job._id }, { $set: { status: DispatchJobStatus.DEAD, lastError: errorMessage }, $unset: { lockedUntil: 1 } })
+        .exec();
+      this.logger.error(`Giving up on print ${job.printId} after ${job.attempts} attempt(s): ${errorMessage}`);
+      this.failures$.next({ printId: job.printId, attempts: job.attempts, error: errorMessage });
+      return;
+    }
+
+    const backoffMs = Math.min(this.configService.printQueueRetryBaseSeconds * 1000 * 2 ** (job.attempts - 1), PRINT_QUEUE_MAX_BACKOFF_MS);
+    const nextAttemptAt = new Date(Date.now() + backoffMs);
+    await this.jobModel
+      .updateOne(
+        { _id: job._id },
+        { $set: { status: DispatchJobStatus.QUEUED, nextAttemptAt, lastError: errorMessage }, $unset: { lockedUntil: 1 } },
+      )
+      .exec();
+    this.logger.warn(`Attempt ${job.attempts}/${maxAttempts} for print ${job.printId} failed, retrying at ${nextAttemptAt.toISOString()}: ${errorMessage}`);
+    this.failures$.next({ printId: job.printId, attempts: job.attempts, error: errorMessage, nextAttemptAt });
+  }
+
+  private async getConcurrency(printerName: string): Promise<number> {
+    const printer = await this.printersService.getPrinterByName(printerName).catch(() => undefined);
+    return printer?.dispatchConcurrency ?? this.configService.printQueueConcurrency;
+  }
+}
@@ -0,0 +1,91 @@
+import { ConflictException, ExecutionContext, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { Model, mongo } from 'mongoose';
+import { ConfigService } from 'src/config/config.service';
+import { PrintWebhookGuard } from './print-webhook.guard';
+import { PrintWebhookDelivery } from './entities/print-webhook-delivery.entity';
+import { WEBHOOK_DELIVERY_HEADER, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WEBHOOK_TOLERANCE_SECONDS } from './constants';
+
+const SECRET = 'test-webhook-secret';
+
+describe('PrintWebhookGuard', () => {
+  let secret: string | undefined;
+  let deliveries: Set<string>;
+  let guard: PrintWebhookGuard;
+
+  beforeEach(() => {
+    secret = SECRET;
+    deliveries = new Set();
+    const configService = { get printStatusWebhookSecret() { return secret; } } as unknown as ConfigService;
+    const deliveryModel = {
+      create: jest.fn(({ deliveryId }: { deliveryId: string }) => {
+        if (deliveries.has(deliveryId)) {
+          return Promise.reject(new mongo.MongoServerError({ message: 'E11000 duplicate key error', code: 11000 }));
+        }
+        deliveries.add(deliveryId);
+        return Promise.resolve({ deliveryId });
+      }),
+    } as unknown as Model<PrintWebhookDelivery>;
+    guard = new PrintWebhookGuard(configService, deliveryModel);
+  });
+
+  const sign = (timestamp: string, deliveryId: string, body: string, key = SECRET) =>
+    `sha256=${createHmac('sha256', key).update(`${timestamp}.${deliveryId}.${body}`).digest('hex')}`;
+
+  const contextFor = (headers: Record<string, string | undefined>, body = '{"printId":"abc"}') =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ headers, rawBody: Buffer.from(body) }) }),
+    }) as unknown as ExecutionContext;
+
+  const signedHeaders = (overrides: Record<string, string | undefined> = {}, body = '{"printId":"abc"}') => {
+    const timestamp = overrides[WEBHOOK_TIMESTAMP_HEADER] ?? String(Math.floor(Date.now() / 1000));
+    const deliveryId = overrides[WEBHOOK_DELIVERY_HEADER] ?? 'delivery-0001';
+    return {
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+      [WEBHOOK_SIGNATURE_HEADER]: sign(timestamp, deliveryId, body),
+      ...overrides,
+    };
+  };
+
+  it('accepts a correctly signed request', async () => {
+    await expect(guard.canActivate(contextFor(signedHeaders()))).resolves.toBe(true);
+    expect(deliveries.has('delivery-0001')).toBe(true);
+  });
+
+  it('rejects a request whose delivery id was already received', async () => {
+    const headers = signedHeaders();
+    await guard.canActivate(contextFor(headers));
+    await expect(guard.canActivate(contextFor(headers))).rejects.toThrow(ConflictException);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const headers = signedHeaders();
+    headers[WEBHOOK_SIGNATURE_HEADER] = sign(headers[WEBHOOK_TIMESTAMP_HEADER], 'delivery-0001', '{"printId":"abc"}', 'other');
+    await expect(guard.canActivate(contextFor(headers))).rejects.toThrow('Invalid signature');
+  });
+
+  it('rejects a body or delivery id that does not match the signature', async () => {
+    await expect(guard.canActivate(contextFor(signedHeaders(), '{"printId":"def"}'))).rejects.toThrow('Invalid signature');
+
+    const headers = signedHeaders();
+    headers[WEBHOOK_DELIVERY_HEADER] = 'delivery-0002';
+    await expect(guard.canActivate(contextFor(headers))).rejects.toThrow('Invalid signature');
+    expect(deliveries.size).toBe(0);
+  });
+
+  it('rejects timestamps outside the tolerance window', async () => {
+    const stale = String(Math.floor(Date.now() / 1000) - WEBHOOK_TOLERANCE_SECONDS - 10);
+    await expect(guard.canActivate(contextFor(signedHeaders({ [WEBHOOK_TIMESTAMP_HEADER]: stale })))).rejects.toThrow('outside the allowed window');
+  });
+
+  it('rejects requests with missing headers or an invalid delivery id', async () => {
+    await expect(guard.canActivate(contextFor(signedHeaders({ [WEBHOOK_SIGNATURE_HEADER]: undefined })))).rejects.toThrow(UnauthorizedException);
+    await expect(guard.canActivate(contextFor(signedHeaders({ [WEBHOOK_DELIVERY_HEADER]: 'a b' })))).rejects.toThrow('Invalid delivery id');
+  });
+
+  it('is unavailable until a secret is configured', async () => {
+    secret = undefined;
+    await expect(guard.canActivate(contextFor(signedHeaders()))).rejects.toThrow(ServiceUnavailableException);
+  });
+});
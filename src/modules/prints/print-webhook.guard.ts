@@ -0,0 +1,63 @@
+import { CanActivate, ConflictException, ExecutionContext, Injectable, RawBodyRequest, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import { FastifyRequest } from 'fastify';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ConfigService } from 'src/config/config.service';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_DELIVERY_ID_PATTERN,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from './constants';
+import { PrintWebhookDelivery } from './entities/print-webhook-delivery.entity';
+
+// Accepts requests signed with the shared webhook secret instead of a user token
+@Injectable()
+export class PrintWebhookGuard implements CanActivate {
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(PrintWebhookDelivery.name) private readonly deliveryModel: Model<PrintWebhookDelivery>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const secret = this.configService.printStatusWebhookSecret;
+    if (!secret) {
+      throw new ServiceUnavailableException('The print status webhook is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<RawBodyRequest<FastifyRequest>>();
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER];
+    const timestamp = request.headers[WEBHOOK_TIMESTAMP_HEADER];
+    const deliveryId = request.headers[WEBHOOK_DELIVERY_HEADER];
+    if (typeof signature !== 'string' || typeof timestamp !== 'string' || typeof deliveryId !== 'string' || !request.rawBody) {
+      throw new UnauthorizedException('Signature, timestamp, delivery id or body missing');
+    }
+    if (!WEBHOOK_DELIVERY_ID_PATTERN.test(deliveryId)) {
+      throw new UnauthorizedException('Invalid delivery id');
+    }
+
+    const sentAt = Number(timestamp);
+    if (!Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new UnauthorizedException('Timestamp is missing or outside the allowed window');
+    }
+
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${deliveryId}.`).update(request.rawBody).digest();
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    // Only signed ids are recorded, so nobody can burn the ids a legitimate source is going to use
+    try {
+      await this.deliveryModel.create({ deliveryId });
+    } catch (error) {
+      if (error instanceof mongo.MongoServerError && error.code === 11000) {
+        throw new ConflictException(`Delivery ${deliveryId} has already been received`);
+      }
+      throw error;
+    }
+    return true;
+  }
+}
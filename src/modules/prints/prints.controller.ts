@@ -1,5 +1,5 @@
-import { Controller, Post, Get, Param, BadRequestException, UseInterceptors, UseGuards, Req, Body } from '@nestjs/common';
-import { PrintsService } from './prints.service';
+import { Controller, Post, Get, Param, BadRequestException, UseInterceptors, UseGuards, Req, Body, Query, ValidationPipe } from '@nestjs/common';
+import { PaginatedPrints, PrintPreview, PrintsService } from './prints.service';
 import { CreatePrintRequestDto } from './dto/create-print-request.dto';
 import { Print } from './entities/print.entity';
 import { JwtAuthGuard } from '../../auth/jwt-auth.guard';
@@ -7,27 +7,170 @@ import { plainToClass } from 'class-transformer';
 import { validate } from 'class-validator';
 import { MulterInterceptor, MulterRequest } from './multer.interceptor';
 import { PrintsGateway } from './prints.gateway';
-import { PrintRequestStatus } from './constants';
 import { Logger } from '@nestjs/common';
-
-interface EmitTestDto {
-  print_job_id: string;
-  requestStatus: PrintRequestStatus;
-  jobId?: string;
-  errorMessage?: string;
-  jobStartTime?: string; // ISO string from Postman
-  jobEndTime?: string;
-}
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { ReleasePrintDto } from './dto/release-print.dto';
+import { QueryPrintsDto } from './dto/query-prints.dto';
+import { ReprintPrintDto } from './dto/reprint-print.dto';
+import { QueryDispatchJobsDto } from './dto/query-dispatch-jobs.dto';
+import { PrintStatusWebhookDto } from './dto/print-status-webhook.dto';
+import { PrintWebhookGuard } from './print-webhook.guard';
+import { ApprovalDecisionDto } from './dto/approval-decision.dto';
+import { PrintQueueService } from './print-queue.service';
+import { PrintDispatchJob } from './entities/print-dispatch-job.entity';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { StaffRole } from '../staffs/constants';
 
 @Controller('prints')
 export class PrintsController {
   private readonly logger = new Logger(PrintsController.name);
 
-  constructor(private readonly printsService: PrintsService, private readonly printsGateway: PrintsGateway) {}
+  constructor(
+    private readonly printsService: PrintsService,
+    private readonly printsGateway: PrintsGateway,
+    private readonly printQueueService: PrintQueueService,
+  ) {}
 
+  @UseGuards(JwtAuthGuard)
   @Post()
   @UseInterceptors(MulterInterceptor)
-  async create(@Req() request: MulterRequest): Promise<Print> {
+  async create(@Req() request: MulterRequest, @CurrentUser() user: JwtPayload): Promise<Print> {
+    const dto = await this.parseCreatePrintRequest(request);
+    return await this.printsService.createPrint(dto, user);
+  }
+
+  // Takes the same multipart form as POST /prints and reports pages, sheets and cost without printing
+  @UseGuards(JwtAuthGuard)
+  @Post('preview')
+  @UseInterceptors(MulterInterceptor)
+  async preview(@Req() request: MulterRequest, @CurrentUser() user: JwtPayload): Promise<PrintPreview> {
+    const dto = await this.parseCreatePrintRequest(request);
+    return await this.printsService.previewPrint(dto, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get()
+  async findAll(@Query(new ValidationPipe({ transform: true })) query: QueryPrintsDto): Promise<PaginatedPrints> {
+    return await this.printsService.getAllPrints(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('queue')
+  async findDispatchJobs(@Query(new ValidationPipe({ transform: true })) query: QueryDispatchJobsDto): Promise<PrintDispatchJob[]> {
+    return await this.printQueueService.getJobs(query.status, query.printer);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
+  @Get('approvals')
+  async findAwaitingApproval(
+    @Query(new ValidationPipe({ transform: true })) query: QueryPrintsDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PaginatedPrints> {
+    return await this.printsService.getPrintsAwaitingApproval(query, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Get(':id')
+  async findOne(@Param('id') id: string, @CurrentUser() user: JwtPayload): Promise<Print | null> {
+    return await this.printsService.getPrintForUser(id, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Get('empid/:empId')
+  async findByEmployeeId(
+    @Param('empId') empId: string,
+    @Query(new ValidationPipe({ transform: true })) query: QueryPrintsDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PaginatedPrints> {
+    return await this.printsService.getPrintsByEmployeeId(empId, query, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.KIOSK)
+  @Post('release-by-pin')
+  async releaseByPin(
+    @Body(new ValidationPipe({ transform: true })) releasePrintDto: ReleasePrintDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<Print> {
+    return await this.printsService.releasePrintByPin(releasePrintDto, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string, @CurrentUser() user: JwtPayload): Promise<Print> {
+    return await this.printsService.cancelPrint(id, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Post(':id/hold')
+  async hold(@Param('id') id: string, @CurrentUser() user: JwtPayload): Promise<Print> {
+    return await this.printsService.holdPrint(id, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Post(':id/release')
+  async release(@Param('id') id: string, @CurrentUser() user: JwtPayload): Promise<Print> {
+    return await this.printsService.releasePrint(id, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Post(':id/reprint')
+  async reprint(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) reprintPrintDto: ReprintPrintDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<Print> {
+    return await this.printsService.reprintPrint(id, reprintPrintDto, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Post(':id/retry')
+  async retry(@Param('id') id: string, @CurrentUser() user: JwtPayload): Promise<Print> {
+    return await this.printsService.retryPrint(id, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
+  @Post(':id/approve')
+  async approve(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) decisionDto: ApprovalDecisionDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<Print> {
+    return await this.printsService.approvePrint(id, decisionDto, user);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
+  @Post(':id/reject')
+  async reject(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) decisionDto: ApprovalDecisionDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<Print> {
+    return await this.printsService.rejectPrint(id, decisionDto, user);
+  }
+
+  // Signed status updates from external sources; see PrintWebhookGuard for the signature scheme
+  @UseGuards(PrintWebhookGuard)
+  @Post('webhook/status')
+  async receiveStatus(@Body(new ValidationPipe({ transform: true, whitelist: true })) statusDto: PrintStatusWebhookDto): Promise<Print> {
+    return await this.printsService.applyWebhookStatus(statusDto);
+  }
+
+  private async parseCreatePrintRequest(request: MulterRequest): Promise<CreatePrintRequestDto> {
     const file = request.multerFile;
     if (!file) {
       throw new BadRequestException('File is required');
@@ -51,52 +194,6 @@ export class PrintsController {
       });
       throw new BadRequestException(`Validation failed: ${errorMessages.join(', ')}`);
     }
-
-    return await this.printsService.createPrint(dto);
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @Get()
-  async findAll(): Promise<Print[]> {
-    return await this.printsService.getAllPrints();
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @Get(':id')
-  async findOne(@Param('id') id: string): Promise<Print | null> {
-    return await this.printsService.getPrintById(id);
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @Get('empid/:empId')
-  async findByEmployeeId(@Param('empId') empId: string): Promise<Print[]> {
-    return await this.printsService.getPrintsByEmployeeId(empId);
-  }
-
-  @Post('emit')
-  async emitViaGateway(@Body() body: EmitTestDto) {
-    const { print_job_id, requestStatus } = body;
-
-    if (!print_job_id || !requestStatus) {
-      throw new BadRequestException('print_job_id and requestStatus are required');
-    }
-
-    // Fetch the print object to get the full details
-    const print = await this.printsService.getPrintById(print_job_id);
-    if (!print) {
-      throw new BadRequestException(`Print job ${print_job_id} not found`);
-    }
-
-    // Update the print with the provided fields
-    await this.printsService.updatePrintStatus(
-      print_job_id,
-      requestStatus,
-      body.jobId,
-      body.jobStartTime || body.jobEndTime ? new Date(body.jobStartTime || body.jobEndTime || Date.now()) : null,
-      body.errorMessage,
-      undefined
-    );
-
-    return { status: 'emitted via gateway', printId: print_job_id };
+    return dto;
   }
 }
\ No newline at end of file
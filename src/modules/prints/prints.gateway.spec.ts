@@ -0,0 +1,174 @@
+import { JwtService } from '@nestjs/jwt';
+import { WsException } from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { AuthService } from 'src/auth/auth.service';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { PrinterStatusService } from '../printers/printer-status.service';
+import { StaffRole } from '../staffs/constants';
+import { Staff } from '../staffs/entities/staff.entity';
+import { StaffsService } from '../staffs/staffs.service';
+import { Print } from './entities/print.entity';
+import { PrintsGateway } from './prints.gateway';
+
+interface FakeSocket {
+  id: string;
+  handshake: { auth: { token?: string }; headers: { authorization?: string } };
+  data: unknown;
+  rooms: Set<string>;
+  join: jest.Mock;
+  leave: jest.Mock;
+  emit: jest.Mock;
+  disconnect: jest.Mock;
+}
+
+describe('PrintsGateway', () => {
+  const jwtService = new JwtService({ secret: 'test-jwt-secret' });
+  let currentRoles: Map<string, StaffRole[]>;
+  let departments: Map<string, string>;
+  let sockets: FakeSocket[];
+  let gateway: PrintsGateway;
+
+  beforeEach(() => {
+    currentRoles = new Map();
+    departments = new Map();
+    sockets = [];
+
+    const authService = {
+      assertTokenActive: jest.fn((payload: JwtPayload) => {
+        const roles = currentRoles.get(payload.employeeId);
+        return roles ? Promise.resolve({ ...payload, roles }) : Promise.reject(new Error('Account is disabled or no longer exists'));
+      }),
+    } as unknown as AuthService;
+    const staffsService = {
+      getStaffByEmployeeId: jest.fn((employeeId: string) =>
+        Promise.resolve(departments.has(employeeId) ? ({ department: departments.get(employeeId) } as Staff) : null)),
+    } as unknown as StaffsService;
+
+    gateway = new PrintsGateway({} as PrinterStatusService, jwtService, authService, staffsService);
+    gateway.server = { fetchSockets: () => Promise.resolve(sockets) } as unknown as Server;
+  });
+
+  const connect = async (employeeId: string, roles: StaffRole[], department?: string) => {
+    currentRoles.set(employeeId, roles);
+    if (department) {
+      departments.set(employeeId, department);
+    }
+    const socket: FakeSocket = {
+      id: `socket-${employeeId}`,
+      handshake: { auth: { token: jwtService.sign({ _id: employeeId, employeeId, roles }, { expiresIn: '1h' }) }, headers: {} },
+      data: undefined,
+      rooms: new Set(),
+      join: jest.fn((rooms: string | string[]) => [rooms].flat().forEach((room) => socket.rooms.add(room))),
+      leave: jest.fn((room: string) => socket.rooms.delete(room)),
+      emit: jest.fn(),
+      disconnect: jest.fn(),
+    };
+    sockets.push(socket);
+    await gateway.handleConnection(socket as unknown as Socket);
+    return socket;
+  };
+
+  const subscribe = (socket: FakeSocket, filter?: { printer?: string; department?: string }) =>
+    gateway.handleSubscribe(socket as unknown as Socket, filter);
+
+  const reauthenticate = () => gateway['reauthenticateSockets']();
+
+  it('puts staff in their own room and admins in the admin room', async () => {
+    const staff = await connect('E001', [StaffRole.STAFF]);
+    const admin = await connect('A001', [StaffRole.ADMIN]);
+
+    expect([...staff.rooms]).toEqual(['employee:E001']);
+    expect([...admin.rooms]).toEqual(['employee:A001', 'admins']);
+  });
+
+  it('rejects sockets without a valid token', async () => {
+    const socket = await connect('E001', [StaffRole.STAFF]);
+    socket.handshake.auth.token = 'not-a-token';
+    socket.rooms.clear();
+    await gateway.handleConnection(socket as unknown as Socket);
+
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+    expect(socket.rooms.size).toBe(0);
+  });
+
+  it('refuses subscriptions before the socket is authenticated', async () => {
+    const socket = await connect('E001', [StaffRole.STAFF]);
+    socket.data = undefined;
+    await expect(subscribe(socket)).rejects.toThrow(WsException);
+  });
+
+  it('narrows an admin to a printer and back to everything', async () => {
+    const admin = await connect('A001', [StaffRole.ADMIN]);
+
+    await expect(subscribe(admin, { printer: 'Floor-2' })).resolves.toEqual({ rooms: ['employee:A001', 'printer:floor-2'] });
+    expect(admin.rooms.has('admins')).toBe(false);
+
+    await subscribe(admin);
+    expect([...admin.rooms]).toEqual(['employee:A001', 'admins']);
+  });
+
+  it('only lets approvers follow their own department', async () => {
+    const approver = await connect('P001', [StaffRole.APPROVER], 'Finance');
+    const staff = await connect('E001', [StaffRole.STAFF], 'Finance');
+
+    await expect(subscribe(approver, { department: 'finance' })).resolves.toEqual({ rooms: ['employee:P001', 'department:finance'] });
+    await expect(subscribe(approver, { department: 'Legal' })).rejects.toThrow(WsException);
+    await expect(subscribe(approver, { printer: 'Floor-2' })).rejects.toThrow(WsException);
+    await expect(subscribe(staff, { department: 'Finance' })).rejects.toThrow(WsException);
+  });
+
+  it('sends print updates to the owner, admins, printer and department rooms without the release PIN', () => {
+    const emit = jest.fn();
+    gateway.server = { to: (rooms: string[]) => ({ emit: (event: string, payload: unknown) => void emit(rooms, event, payload) }) } as unknown as Server;
+
+    gateway.emitPrintUpdate({
+      _id: 'print-1',
+      employeeId: 'E001',
+      printer: 'Floor-2',
+      department: 'Finance',
+      releasePin: '1234',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as unknown as Print);
+
+    const [rooms, event, payload] = emit.mock.calls[0] as [string[], string, Record<string, unknown>];
+    expect(event).toBe('printUpdate');
+    expect(rooms).toEqual(['employee:E001', 'admins', 'printer:floor-2', 'department:finance']);
+    expect(payload).not.toHaveProperty('releasePin');
+  });
+
+  it('takes filter rooms away from users who lost the role', async () => {
+    const admin = await connect('A001', [StaffRole.ADMIN]);
+    await subscribe(admin, { printer: 'Floor-2' });
+    const approver = await connect('P001', [StaffRole.APPROVER], 'Finance');
+    await subscribe(approver, { department: 'Finance' });
+
+    currentRoles.set('A001', [StaffRole.STAFF]);
+    currentRoles.set('P001', [StaffRole.STAFF]);
+    await reauthenticate();
+
+    expect([...admin.rooms]).toEqual(['employee:A001']);
+    expect([...approver.rooms]).toEqual(['employee:P001']);
+  });
+
+  it('takes the department room away from approvers who moved department', async () => {
+    const approver = await connect('P001', [StaffRole.APPROVER], 'Finance');
+    await subscribe(approver, { department: 'Finance' });
+
+    await reauthenticate();
+    expect(approver.rooms.has('department:finance')).toBe(true);
+
+    departments.set('P001', 'Legal');
+    await reauthenticate();
+    expect(approver.rooms.has('department:finance')).toBe(false);
+  });
+
+  it('disconnects sockets of disabled accounts', async () => {
+    const socket = await connect('E001', [StaffRole.STAFF]);
+    currentRoles.delete('E001');
+    await reauthenticate();
+
+    expect(socket.emit).toHaveBeenCalledWith('unauthorized', { message: 'Authentication expired' });
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+  });
+});
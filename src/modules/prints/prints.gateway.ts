@@ -1,26 +1,94 @@
-import { SubscribeMessage, WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { ConnectedSocket, MessageBody, SubscribeMessage, WebSocketGateway, WebSocketServer, WsException } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Print } from './entities/print.entity';
-import { Logger } from '@nestjs/common';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Subscription } from 'rxjs';
+import { PrinterStatusService, PrinterStatusUpdate } from '../printers/printer-status.service';
+import { AuthService } from 'src/auth/auth.service';
+import { hasRole } from 'src/auth/roles.guard';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from '../staffs/constants';
+import { StaffsService } from '../staffs/staffs.service';
+import { SOCKET_REAUTH_INTERVAL_MS } from './constants';
 
+interface PrintUpdatesSocketData {
+  user: JwtPayload;
+  department?: string;
+}
+
+export interface PrintUpdatesFilter {
+  printer?: string;
+  department?: string;
+}
+
+const ADMIN_ROOM = 'admins';
+const employeeRoom = (employeeId: string) => `employee:${employeeId}`;
+const printerRoom = (printer: string) => `printer:${printer.toLowerCase()}`;
+const departmentRoom = (department: string) => `department:${department.toLowerCase()}`;
+
+/**
+ * Every socket authenticates with the same access token as the REST API (`auth.token` in the
+ * handshake or an Authorization header). Staff only hear about their own prints; admins get
+ * everything unless they narrow it down with `subscribeToPrintUpdates`, and approvers may follow
+ * their own department. The token is checked again every SOCKET_REAUTH_INTERVAL_MS, so sockets of
+ * revoked, expired or disabled accounts are dropped and lost roles take their rooms with them.
+ */
 @WebSocketGateway({
   namespace: 'print-live-updates',
   cors: true,
   pingTimeout: 60000, // Wait 60 seconds before disconnecting due to ping timeout
   pingInterval: 25000, // Send a ping every 25 seconds
 })
-export class PrintsGateway {
+export class PrintsGateway implements OnModuleDestroy {
   @WebSocketServer()
   server: Server;
 
   private logger = new Logger('PrintsGateway');
+  private printerStatusSubscription?: Subscription;
+  private reauthTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly printerStatusService: PrinterStatusService,
+    private readonly jwtService: JwtService,
+    private readonly authService: AuthService,
+    private readonly staffsService: StaffsService,
+  ) { }
 
   afterInit() {
     this.logger.log('WebSocket Gateway initialized');
+    this.printerStatusSubscription = this.printerStatusService.statusUpdates$.subscribe((status) => this.emitPrinterStatus(status));
+    this.reauthTimer = setInterval(
+      () => void this.reauthenticateSockets().catch((error: unknown) => {
+        this.logger.error(`Socket re-authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }),
+      SOCKET_REAUTH_INTERVAL_MS,
+    );
+  }
+
+  onModuleDestroy() {
+    this.printerStatusSubscription?.unsubscribe();
+    if (this.reauthTimer) {
+      clearInterval(this.reauthTimer);
+    }
   }
 
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+  async handleConnection(client: Socket) {
+    try {
+      const user = await this.authenticate(client);
+      const data: PrintUpdatesSocketData = { user };
+      client.data = data;
+
+      await client.join(employeeRoom(user.employeeId));
+      if (hasRole(user, StaffRole.ADMIN)) {
+        await client.join(ADMIN_ROOM);
+      }
+      this.logger.log(`Client connected: ${client.id} (${user.employeeId})`);
+    } catch (error) {
+      this.logger.warn(`Rejected socket ${client.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      client.emit('unauthorized', { message: 'Authentication required' });
+      client.disconnect(true);
+    }
   }
 
   handleDisconnect(client: Socket) {
@@ -34,13 +102,136 @@ export class PrintsGateway {
       createdAt: print.createdAt.toISOString(),
       updatedAt: print.updatedAt.toISOString(),
     };
+    // The release PIN is only ever handed to the submitter (HTTP response or printApproval event)
+    delete transformedPrint.releasePin;
+
+    const rooms = [employeeRoom(print.employeeId), ADMIN_ROOM, printerRoom(print.printer)];
+    if (print.department) {
+      rooms.push(departmentRoom(print.department));
+    }
 
     this.logger.log(`Emitting print update for print ${print._id}`);
-    this.server.emit('printUpdate', transformedPrint);
+    // socket.io delivers once per socket even when it is in several of these rooms
+    this.server.to(rooms).emit('printUpdate', transformedPrint);
+  }
+
+  // Tells the requester what became of a print that needed approval, with the release PIN once a held print is approved
+  emitApprovalDecision(print: Print, releasePin?: string) {
+    if (!print.approval?.decision) {
+      return;
+    }
+    this.server.to(employeeRoom(print.employeeId)).emit('printApproval', {
+      printId: print._id,
+      fileName: print.fileName,
+      decision: print.approval.decision,
+      decidedBy: print.approval.decidedBy,
+      decidedAt: print.approval.decidedAt?.toISOString(),
+      comment: print.approval.comment,
+      releasePin,
+    });
+  }
+
+  emitPrinterStatus(status: PrinterStatusUpdate) {
+    this.server.emit('printerStatus', { ...status, checkedAt: status.checkedAt.toISOString() });
   }
 
+  /**
+   * Replaces the socket's filter rooms. Without a filter admins go back to receiving every print;
+   * staff always keep their own employee room and cannot widen it.
+   */
   @SubscribeMessage('subscribeToPrintUpdates')
-  handleSubscribe(client: Socket) {
-    this.logger.log(`Client ${client.id} subscribed to print updates`);
+  async handleSubscribe(@ConnectedSocket() client: Socket, @MessageBody() filter?: PrintUpdatesFilter) {
+    const data = client.data as PrintUpdatesSocketData | undefined;
+    // handleConnection is still authenticating (or has rejected) this socket
+    if (!data?.user) {
+      throw new WsException('Not authenticated');
+    }
+    const printer = typeof filter?.printer === 'string' ? filter.printer.trim() : undefined;
+    const department = typeof filter?.department === 'string' ? filter.department.trim() : undefined;
+    const isAdmin = hasRole(data.user, StaffRole.ADMIN);
+
+    const rooms: string[] = [];
+    if (printer) {
+      if (!isAdmin) {
+        throw new WsException('Only admins can follow a printer');
+      }
+      rooms.push(printerRoom(printer));
+    }
+    if (department) {
+      if (!isAdmin && !(await this.isApproverFor(data, department))) {
+        throw new WsException('You can only follow your own department');
+      }
+      rooms.push(departmentRoom(department));
+    }
+    if (rooms.length === 0 && isAdmin) {
+      rooms.push(ADMIN_ROOM);
+    }
+
+    for (const room of client.rooms) {
+      if (room === ADMIN_ROOM || room.startsWith('printer:') || room.startsWith('department:')) {
+        await client.leave(room);
+      }
+    }
+    await client.join(rooms);
+
+    this.logger.log(`Client ${client.id} subscribed to print updates (${rooms.join(', ') || 'own prints only'})`);
+    return { rooms: [employeeRoom(data.user.employeeId), ...rooms] };
+  }
+
+  private async authenticate(client: Socket): Promise<JwtPayload> {
+    const auth = client.handshake.auth as { token?: unknown } | undefined;
+    const authHeader = client.handshake.headers.authorization;
+    const token = typeof auth?.token === 'string'
+      ? auth.token.replace(/^Bearer /, '')
+      : authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+    if (!token) {
+      throw new Error('Token missing');
+    }
+
+    const payload = this.jwtService.verify<JwtPayload>(token);
+    return this.authService.assertTokenActive(payload);
+  }
+
+  private async reauthenticateSockets(): Promise<void> {
+    const sockets = await this.server.fetchSockets().catch(() => []);
+    for (const socket of sockets) {
+      const data = socket.data as PrintUpdatesSocketData | undefined;
+      if (!data?.user) {
+        continue;
+      }
+      try {
+        if (data.user.exp * 1000 <= Date.now()) {
+          throw new Error('Token expired');
+        }
+        data.user = await this.authService.assertTokenActive(data.user);
+      } catch (error) {
+        this.logger.log(`Disconnecting socket ${socket.id} (${data.user.employeeId}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+        socket.emit('unauthorized', { message: 'Authentication expired' });
+        socket.disconnect(true);
+        continue;
+      }
+
+      const isAdmin = hasRole(data.user, StaffRole.ADMIN);
+      // Approvers may have moved to another department since they subscribed
+      data.department = undefined;
+      for (const room of socket.rooms) {
+        const adminOnly = room === ADMIN_ROOM || room.startsWith('printer:');
+        const department = room.startsWith('department:') ? room.slice('department:'.length) : undefined;
+        if ((adminOnly && !isAdmin) || (department !== undefined && !isAdmin && !(await this.isApproverFor(data, department)))) {
+          socket.leave(room);
+        }
+      }
+    }
+  }
+
+  private async isApproverFor(data: PrintUpdatesSocketData, department: string): Promise<boolean> {
+    if (!hasRole(data.user, StaffRole.APPROVER)) {
+      return false;
+    }
+    if (data.department === undefined) {
+      const staff = await this.staffsService.getStaffByEmployeeId(data.user.employeeId);
+      data.department = staff?.department ?? '';
+    }
+    return data.department.toLowerCase() === department.toLowerCase();
   }
-}
\ No newline at end of file
+}
@@ -3,15 +3,38 @@ import { PrintsService } from './prints.service';
 import { PrintsController } from './prints.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Print, PrintSchema } from './entities/print.entity';
+import { PrintDispatchJob, PrintDispatchJobSchema } from './entities/print-dispatch-job.entity';
+import { PrintWebhookDelivery, PrintWebhookDeliverySchema } from './entities/print-webhook-delivery.entity';
+import { PrintQueueService } from './print-queue.service';
 import { AuthModule } from 'src/auth/auth.module';
 import { PrintsGateway } from './prints.gateway';
+import { StaffsModule } from '../staffs/staffs.module';
+import { QuotasModule } from '../quotas/quotas.module';
+import { CupsModule } from '../cups/cups.module';
+import { PrintersModule } from '../printers/printers.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
+import { AppConfigModule } from 'src/config/config.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Print.name, schema: PrintSchema }]),
+    MongooseModule.forFeature([
+      { name: Print.name, schema: PrintSchema },
+      { name: PrintDispatchJob.name, schema: PrintDispatchJobSchema },
+      { name: PrintWebhookDelivery.name, schema: PrintWebhookDeliverySchema },
+    ]),
     AuthModule,
+    StaffsModule,
+    QuotasModule,
+    CupsModule,
+    PrintersModule,
+    PricingModule,
+    ApprovalsModule,
+    AppConfigModule,
+    StorageModule,
   ],
   controllers: [PrintsController],
-  providers: [PrintsService, PrintsGateway],
+  providers: [PrintsService, PrintsGateway, PrintQueueService],
 })
 export class PrintsModule {}
\ No newline at end of file
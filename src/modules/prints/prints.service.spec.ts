@@ -0,0 +1,407 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Model } from 'mongoose';
+import { PDFDocument } from 'pdf-lib';
+import { ApprovalsService } from '../approvals/approvals.service';
+import { CupsEventsService } from '../cups/cups-events.service';
+import { CupsService } from '../cups/cups.service';
+import { PrintersService } from '../printers/printers.service';
+import { PricingService } from '../pricing/pricing.service';
+import { QuotasService } from '../quotas/quotas.service';
+import { StaffsService } from '../staffs/staffs.service';
+import { StorageBackend } from '../storage/storage-backend.interface';
+import { ConfigService } from 'src/config/config.service';
+import { PrintDocument } from './entities/print.entity';
+import { PrintQueueService } from './print-queue.service';
+import { PrintsGateway } from './prints.gateway';
+import { PrintsService } from './prints.service';
+import { CreatePrintRequestDto } from './dto/create-print-request.dto';
+import { QueryPrintsDto } from './dto/query-prints.dto';
+import { ApprovalDecision, Orientation, PageLayout, PrintRequestStatus, PrintSortField, Sides } from './constants';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { StaffRole } from '../staffs/constants';
+
+// node-fetch only ships as an ES module, which jest does not load; these specs never download anything
+jest.mock('node-fetch', () => ({ __esModule: true, default: jest.fn(), Response: class {} }));
+
+interface StoredPrint {
+  _id: string;
+  createdAt: Date;
+  pagesPrinted: number;
+}
+
+type SortFilter = Record<string, unknown>;
+
+interface StoredPrintDocument {
+  _id: string;
+  requestStatus: PrintRequestStatus;
+  approval: { reasons: string[]; expiresAt: Date; holdForRelease: boolean; decision?: ApprovalDecision; decidedBy?: string; comment?: string };
+  statusHistory: unknown[];
+  releasePin?: string;
+  releaseExpiresAt?: Date;
+  errorMessage?: string;
+  [field: string]: unknown;
+}
+
+interface DocumentUpdate {
+  $set?: Record<string, unknown>;
+  $unset?: Record<string, 1>;
+  $push?: Record<string, unknown>;
+}
+
+// A one-print collection: equality and $exists filters on dotted paths, and $set/$unset/$push updates
+const createPrintStore = (getPrint: () => StoredPrintDocument) => {
+  const read = (path: string) => path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], getPrint());
+  const parentOf = (path: string) => {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce((value, key) => value[key] as Record<string, unknown>, getPrint() as Record<string, unknown>);
+    return { parent, key: keys[keys.length - 1] };
+  };
+  const matches = (filter: Record<string, unknown>) =>
+    Object.entries(filter).every(([path, condition]) => {
+      const value = read(path);
+      if (condition && typeof condition === 'object' && '$exists' in condition) {
+        return (value !== undefined) === (condition as { $exists: boolean }).$exists;
+      }
+      return String(value) === String(condition);
+    });
+  const apply = (update: DocumentUpdate) => {
+    Object.entries(update.$set ?? {}).forEach(([path, value]) => {
+      const { parent, key } = parentOf(path);
+      parent[key] = value;
+    });
+    Object.keys(update.$unset ?? {}).forEach((path) => {
+      const { parent, key } = parentOf(path);
+      delete parent[key];
+    });
+    Object.entries(update.$push ?? {}).forEach(([path, value]) => (read(path) as unknown[]).push(value));
+  };
+  const snapshot = () => ({ ...getPrint(), toObject: () => ({ ...getPrint() }) });
+  const exec = <T>(value: () => T) => ({ exec: () => Promise.resolve(value()) });
+
+  return {
+    findById: jest.fn(() => exec(snapshot)),
+    findOneAndUpdate: jest.fn((filter: Record<string, unknown>, update: DocumentUpdate) => {
+      const updated = matches(filter) ? (apply(update), snapshot()) : null;
+      return { ...exec(() => updated), select: () => exec(() => updated) };
+    }),
+    updateOne: jest.fn((filter: Record<string, unknown>, update: DocumentUpdate) => {
+      const matched = matches(filter);
+      if (matched) {
+        apply(update);
+      }
+      return exec(() => ({ modifiedCount: matched ? 1 : 0 }));
+    }),
+  };
+};
+
+// Collaborators a spec leaves out are empty objects, so calling into them fails loudly
+const createService = (deps: {
+  printModel: unknown;
+  printsGateway?: unknown;
+  staffsService?: unknown;
+  quotasService?: unknown;
+  cupsService?: unknown;
+  printersService?: unknown;
+  pricingService?: unknown;
+  approvalsService?: unknown;
+  configService?: unknown;
+  storage?: unknown;
+  printQueue?: unknown;
+}) =>
+  new PrintsService(
+    deps.printModel as Model<PrintDocument>,
+    (deps.printsGateway ?? {}) as PrintsGateway,
+    (deps.staffsService ?? {}) as StaffsService,
+    (deps.quotasService ?? {}) as QuotasService,
+    (deps.cupsService ?? {}) as CupsService,
+    {} as CupsEventsService,
+    (deps.printersService ?? {}) as PrintersService,
+    (deps.pricingService ?? {}) as PricingService,
+    (deps.approvalsService ?? {}) as ApprovalsService,
+    (deps.configService ?? {}) as ConfigService,
+    (deps.storage ?? {}) as StorageBackend,
+    (deps.printQueue ?? {}) as PrintQueueService,
+  );
+
+describe('PrintsService', () => {
+  describe('print history pagination', () => {
+    let prints: StoredPrint[];
+    let service: PrintsService;
+
+    // Enough of find/sort/limit to run the keyset filters findPrints builds
+    const matchesKeyset = (print: StoredPrint, clauses: SortFilter[]) =>
+      clauses.some((clause) =>
+        Object.entries(clause).every(([field, condition]) => {
+          const value = print[field as keyof StoredPrint].valueOf();
+          if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+            const { $lt, $gt } = condition as { $lt?: Date | number | string; $gt?: Date | number | string };
+            return $lt !== undefined ? value < $lt.valueOf() : value > $gt!.valueOf();
+          }
+          return value === (condition as Date | number).valueOf();
+        }));
+
+    beforeEach(() => {
+      // Two prints per timestamp and page count so ties have to be broken on _id
+      prints = Array.from({ length: 7 }, (_, index) => ({
+        _id: (index + 1).toString(16).padStart(24, '0'),
+        createdAt: new Date(Date.UTC(2026, 2, 1 + Math.floor(index / 2))),
+        pagesPrinted: Math.floor(index / 2),
+      }));
+
+      const printModel = {
+        find: jest.fn((filter: { $or?: SortFilter[] }) => ({
+          sort: (sort: Record<string, 1 | -1>) => ({
+            limit: (limit: number) => ({
+              exec: () => {
+                const [[field, direction]] = Object.entries(sort);
+                const rows = prints
+                  .filter((print) => !filter.$or || matchesKeyset(print, filter.$or))
+                  .sort((a, b) => {
+                    const key = field as PrintSortField & keyof StoredPrint;
+                    return (a[key].valueOf() - b[key].valueOf() || a._id.localeCompare(b._id)) * direction;
+                  });
+                return Promise.resolve(rows.slice(0, limit));
+              },
+            }),
+          }),
+        })),
+        countDocuments: jest.fn(() => ({ exec: () => Promise.resolve(prints.length) })),
+      };
+
+      service = createService({ printModel });
+    });
+
+    const query = (overrides: Partial<QueryPrintsDto> = {}) =>
+      Object.assign(new QueryPrintsDto(), { limit: 3, ...overrides });
+
+    const allPages = async (overrides: Partial<QueryPrintsDto>) => {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await service.getAllPrints(query({ ...overrides, cursor }));
+        expect(page.total).toBe(7);
+        ids.push(...page.items.map((print) => String(print._id)));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return ids;
+    };
+
+    it('walks every print exactly once, newest first', async () => {
+      const ids = await allPages({});
+      expect(ids).toEqual(prints.map((print) => print._id).reverse());
+    });
+
+    it('walks a numeric sort field in ascending order', async () => {
+      const ids = await allPages({ sortBy: 'pagesPrinted', sortOrder: 'asc' });
+      expect(ids).toEqual(prints.map((print) => print._id));
+    });
+
+    it('returns no cursor on the last page', async () => {
+      const page = await service.getAllPrints(query({ limit: 7 }));
+      expect(page.items).toHaveLength(7);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('rejects cursors that were tampered with or made for another sort field', async () => {
+      const { nextCursor } = await service.getAllPrints(query());
+      const forged = Buffer.from(JSON.stringify(['2026-03-01T00:00:00.000Z', '{"$gt":""}'])).toString('base64url');
+
+      await expect(service.getAllPrints(query({ cursor: 'not-a-cursor' }))).rejects.toThrow(BadRequestException);
+      await expect(service.getAllPrints(query({ cursor: forged }))).rejects.toThrow(BadRequestException);
+      await expect(service.getAllPrints(query({ cursor: nextCursor!, sortBy: 'pagesPrinted' }))).rejects.toThrow(BadRequestException);
+    });
+  });
+  describe('approval decisions', () => {
+    const PRINT_ID = '0000000000000000000000a1';
+    let print: StoredPrintDocument;
+    let printQueue: { enqueue: jest.Mock };
+    let printsGateway: { emitPrintUpdate: jest.Mock; emitApprovalDecision: jest.Mock };
+    let service: PrintsService;
+
+    const approver = (employeeId = 'P001', roles = [StaffRole.APPROVER]) => ({ _id: employeeId, employeeId, roles }) as JwtPayload;
+
+    beforeEach(() => {
+      print = {
+        _id: PRINT_ID,
+        employeeId: 'E001',
+        department: 'Finance',
+        printer: 'floor-1',
+        requestStatus: PrintRequestStatus.AWAITING_APPROVAL,
+        approval: { reasons: ['color'], expiresAt: new Date(Date.now() + 60_000), holdForRelease: false },
+        releasePin: '123456',
+        statusHistory: [],
+      };
+      printQueue = { enqueue: jest.fn(() => Promise.resolve()) };
+      printsGateway = { emitPrintUpdate: jest.fn(), emitApprovalDecision: jest.fn() };
+      const departments: Record<string, string> = { P001: 'Finance', P002: 'Legal', E001: 'Finance' };
+
+      service = createService({
+        printModel: createPrintStore(() => print),
+        printsGateway,
+        printQueue,
+        staffsService: { getStaffByEmployeeId: (employeeId: string) => Promise.resolve({ department: departments[employeeId] }) },
+        configService: { heldPrintExpiryHours: 24 },
+      });
+    });
+
+    it('queues an approved print and tells the requester', async () => {
+      const approved = await service.approvePrint(PRINT_ID, { comment: 'ok' }, approver());
+
+      expect(approved.requestStatus).toBe(PrintRequestStatus.QUEUED);
+      expect(print.approval).toMatchObject({ decision: ApprovalDecision.APPROVED, decidedBy: 'P001', comment: 'ok' });
+      expect(print.statusHistory).toEqual([expect.objectContaining({ from: PrintRequestStatus.AWAITING_APPROVAL, status: PrintRequestStatus.QUEUED, actor: 'P001' })]);
+      expect(printQueue.enqueue).toHaveBeenCalledWith(PRINT_ID, 'floor-1');
+      expect(printsGateway.emitApprovalDecision).toHaveBeenCalledWith(approved, undefined);
+    });
+
+    it('holds an approved print for release and hands the PIN to the requester', async () => {
+      print.approval.holdForRelease = true;
+      const approved = await service.approvePrint(PRINT_ID, {}, approver());
+
+      expect(approved.requestStatus).toBe(PrintRequestStatus.HELD);
+      expect(print.releaseExpiresAt).toBeInstanceOf(Date);
+      expect(printQueue.enqueue).not.toHaveBeenCalled();
+      expect(printsGateway.emitApprovalDecision).toHaveBeenCalledWith(approved, '123456');
+    });
+
+    it('rejects a print, drops its release PIN and records why', async () => {
+      const rejected = await service.rejectPrint(PRINT_ID, { comment: 'too many pages' }, approver());
+
+      expect(rejected.requestStatus).toBe(PrintRequestStatus.REJECTED);
+      expect(print.releasePin).toBeUndefined();
+      expect(print.errorMessage).toBe('Rejected by P001: too many pages');
+      expect(print.approval.decision).toBe(ApprovalDecision.REJECTED);
+      expect(printsGateway.emitApprovalDecision).toHaveBeenCalledWith(rejected);
+    });
+
+    it('only lets approvers decide on other people\'s prints from their own department', async () => {
+      await expect(service.approvePrint(PRINT_ID, {}, approver('P002'))).rejects.toThrow(ForbiddenException);
+      await expect(service.approvePrint(PRINT_ID, {}, approver('E001'))).rejects.toThrow('You cannot decide on your own print jobs');
+      expect(print.approval.decision).toBeUndefined();
+
+      await expect(service.rejectPrint(PRINT_ID, {}, approver('A001', [StaffRole.ADMIN]))).resolves.toBeDefined();
+    });
+
+    it('accepts only one decision', async () => {
+      await service.approvePrint(PRINT_ID, {}, approver());
+
+      await expect(service.rejectPrint(PRINT_ID, {}, approver())).rejects.toThrow(BadRequestException);
+      expect(print.approval.decision).toBe(ApprovalDecision.APPROVED);
+    });
+
+    it('refuses decisions once the approval request has expired', async () => {
+      print.approval.expiresAt = new Date(Date.now() - 1000);
+      await expect(service.approvePrint(PRINT_ID, {}, approver())).rejects.toThrow('has expired');
+    });
+  });
+  describe('previewPrint', () => {
+    let pdf: Buffer;
+    let quotaRemaining: number | null;
+    let approvalReasons: string[];
+    let printersService: { assertPrinterAccepts: jest.Mock };
+    let pricingService: { estimateCost: jest.Mock };
+    let quotasService: { getQuotaStatus: jest.Mock; reserveQuota: jest.Mock };
+    let storage: { put: jest.Mock };
+    let printModel: jest.Mock;
+    let service: PrintsService;
+
+    const user = { _id: 'E001', employeeId: 'E001', roles: [StaffRole.STAFF] } as JwtPayload;
+
+    const request = (overrides: Partial<CreatePrintRequestDto> = {}) =>
+      Object.assign(new CreatePrintRequestDto(), {
+        fileType: 'pdf',
+        printer: 'floor-1',
+        copies: 2,
+        pagesToPrint: 'all',
+        file: { buffer: pdf, originalname: 'report.pdf' },
+        ...overrides,
+      });
+
+    beforeAll(async () => {
+      const document = await PDFDocument.create();
+      for (let page = 0; page < 5; page++) {
+        document.addPage();
+      }
+      pdf = Buffer.from(await document.save());
+    });
+
+    beforeEach(() => {
+      quotaRemaining = 100;
+      approvalReasons = [];
+      printersService = { assertPrinterAccepts: jest.fn(() => Promise.resolve({})) };
+      pricingService = {
+        estimateCost: jest.fn(({ pagesPerCopy, copies }: { pagesPerCopy: number; copies: number }) =>
+          Promise.resolve({ sheets: pagesPerCopy * copies, impressions: pagesPerCopy * copies, cost: 1.25, currency: 'EUR' })),
+      };
+      quotasService = {
+        getQuotaStatus: jest.fn(() => Promise.resolve({ remaining: quotaRemaining })),
+        reserveQuota: jest.fn(),
+      };
+      storage = { put: jest.fn() };
+      printModel = jest.fn();
+
+      service = createService({
+        printModel,
+        staffsService: { getStaffByEmployeeId: () => Promise.resolve({ employeeId: 'E001', department: 'Finance', isActive: true }) },
+        printersService,
+        pricingService,
+        quotasService,
+        approvalsService: { getApprovalReasons: () => Promise.resolve(approvalReasons) },
+        storage,
+      });
+    });
+
+    it('reports what the submission would use without saving or reserving anything', async () => {
+      const preview = await service.previewPrint(request({ pagesToPrint: '4,1-2', isColor: true }), user);
+
+      expect(preview).toEqual({
+        pages: 5,
+        printablePages: 5,
+        pagesPerCopy: 3,
+        copies: 2,
+        pagesToPrint: '1-2,4',
+        orientation: Orientation.UPRIGHT,
+        estimatedPages: 6,
+        sheets: 6,
+        impressions: 6,
+        estimatedCost: 1.25,
+        currency: 'EUR',
+        quotaRemaining: 100,
+        withinQuota: true,
+        approvalReasons: [],
+      });
+      expect(printersService.assertPrinterAccepts).toHaveBeenCalledWith('floor-1', 'Finance', expect.objectContaining({ isColor: true }));
+      expect(pricingService.estimateCost).toHaveBeenCalledWith(
+        { pagesPerCopy: 3, copies: 2, sides: Sides.SINGLE, pageLayout: PageLayout.NORMAL },
+        { isColor: true, paperSize: 'A4' },
+      );
+      expect(quotasService.reserveQuota).not.toHaveBeenCalled();
+      expect(printModel).not.toHaveBeenCalled();
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('counts padded booklet pages and turns booklets sideways', async () => {
+      const preview = await service.previewPrint(request({ pageLayout: PageLayout.BOOKLET, copies: 1 }), user);
+      expect(preview).toMatchObject({ pages: 5, printablePages: 8, pagesPerCopy: 8, orientation: Orientation.SIDEWAYS });
+    });
+
+    it('reports quota and approval rules instead of enforcing them', async () => {
+      quotaRemaining = 5;
+      approvalReasons = ['More than 5 pages'];
+
+      await expect(service.previewPrint(request(), user)).resolves.toMatchObject({
+        estimatedPages: 10,
+        quotaRemaining: 5,
+        withinQuota: false,
+        approvalReasons: ['More than 5 pages'],
+      });
+    });
+
+    it('fails like a submission on printer and page range problems', async () => {
+      await expect(service.previewPrint(request({ pagesToPrint: '6' }), user)).rejects.toThrow(BadRequestException);
+
+      printersService.assertPrinterAccepts.mockRejectedValue(new ForbiddenException('Printer floor-1 is not available to Finance'));
+      await expect(service.previewPrint(request(), user)).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
@@ -1,94 +1,161 @@
-import { BadRequestException, Injectable, InternalServerErrorException, OnModuleInit } from '@nestjs/common';
+import { BadRequestException, ConflictException, ForbiddenException, GoneException, HttpException, Inject, Injectable, InternalServerErrorException, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Document } from 'mongoose';
-import { Print } from './entities/print.entity';
+import { Print, PrintApproval, PrintStatusChange } from './entities/print.entity';
 import { CreatePrintRequestDto } from './dto/create-print-request.dto';
 import { PrintsGateway } from './prints.gateway';
-import * as ipp from 'ipp';
-import { CUPS_SERVER_IP, PrintRequestStatus, ColorMode, Sides, Orientation, PageLayout, Margin, DEFAULT_PRINTER, VALID_FILE_TYPES, FileType } from './constants';
+import { PrintRequestStatus, ColorMode, Sides, Orientation, PageLayout, Margin, VALID_FILE_TYPES, FileType, FILE_EXTENSIONS, TERMINAL_REQUEST_STATUSES, PrintSortField, PaperSize, WEBHOOK_STATUS_TRANSITIONS, PRINT_STATUS_TRANSITIONS, PrintStatusSource, ApprovalDecision, PAPER_SIZE_DIMENSIONS } from './constants';
 import { Logger } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fetch, { Response } from 'node-fetch';
-import { UPLOAD_BASE_PATH } from './constants';
+import { RELEASE_PIN_LENGTH, HELD_PRINT_SWEEP_INTERVAL_MS, ACTIVE_JOB_STATUSES } from './constants';
 import { PDFDocument } from 'pdf-lib';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as os from 'os';
+import { randomInt } from 'crypto';
+import { StaffsService } from '../staffs/staffs.service';
+import { Staff } from '../staffs/entities/staff.entity';
+import { QuotaReservation, QuotasService } from '../quotas/quotas.service';
+import { CupsService, IppStatusError, IPPParams, IPPResponse } from '../cups/cups.service';
+import { IPP_VALUE_TAGS, IppAttribute } from '../cups/ipp-encoder';
+import { CupsEventsService, CupsJobEvent } from '../cups/cups-events.service';
+import { PrintersService } from '../printers/printers.service';
+import { PricingService } from '../pricing/pricing.service';
+import { ApprovalCandidate, ApprovalsService } from '../approvals/approvals.service';
+import { Subscription } from 'rxjs';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { hasRole } from 'src/auth/roles.guard';
+import { StaffRole } from '../staffs/constants';
+import { ConfigService } from 'src/config/config.service';
+import { ReleasePrintDto } from './dto/release-print.dto';
+import { QueryPrintsDto } from './dto/query-prints.dto';
+import { ReprintPrintDto } from './dto/reprint-print.dto';
+import { PrintStatusWebhookDto } from './dto/print-status-webhook.dto';
+import { ApprovalDecisionDto } from './dto/approval-decision.dto';
+import { ALL_PAGES, formatPageRanges, parsePageRanges, toPageRangePairs } from './page-ranges';
+import { getStoredFileKey } from './file-keys';
+import { StorageBackend } from '../storage/storage-backend.interface';
+import { STORAGE_BACKEND } from '../storage/constants';
+import { DispatchFailure, PermanentDispatchError, PrintQueueService } from './print-queue.service';
 
 const execPromise: (command: string) => Promise<{ stdout: string; stderr: string }> = promisify(exec);
 
-interface IPPResponse {
-  version?: string;
-  statusCode?: string;
-  id?: number;
-  'operation-attributes-tag'?: {
-    'attributes-charset'?: string;
-    'attributes-natural-language'?: string;
-    'status-message'?: string;
-  };
-  'printer-attributes-tag'?: {
-    'printer-is-accepting-jobs'?: boolean;
-    'printer-state'?: string | number;
-    'printer-state-reasons'?: string | string[] | undefined;
-  };
-  'job-attributes-tag'?: {
-    'job-id'?: number;
-    'job-state'?: string;
-    'pages-completed'?: number;
-    'job-media-sheets-completed'?: number;
-    'job-impressions-completed'?: number;
-  };
+interface PrintDocument extends Document, Print {
+  _id: string;
 }
 
-interface IPPPrinter {
-  execute: (operation: string, params: object, callback: (err: Error | null, res: IPPResponse | undefined) => void) => void;
+export interface StatusUpdateOptions {
+  source: PrintStatusSource;
+  actor?: string; // Employee ID for user changes, the reporting system's name for webhook changes
+  jobId?: string;
+  timestamp?: Date; // When the change happened; defaults to now
+  errorMessage?: string;
+  pagesPrinted?: number;
+  jobStateReasons?: string[];
+  note?: string; // Kept in the history entry only, unlike errorMessage
 }
 
-interface Params {
-  'operation-attributes-tag': {
-    'requested-attributes'?: string[];
-    'job-id'?: number;
-    'requesting-user-name'?: string;
-  };
+interface PreparedPrintDocument {
+  buffer: Buffer; // Final PDF (or the original upload when no processing was needed)
+  fileName: string;
+  originalPageCount: number;
+  printablePageCount: number; // After booklet padding and the sheet range
+  pagesPerCopy: number; // Printable pages limited to pagesToPrint
 }
 
-interface PrintDocument extends Document, Print {
-  _id: string;
+export interface PrintPreview {
+  pages: number; // Pages in the uploaded document, after conversion to PDF
+  printablePages: number; // After booklet padding and the sheet range
+  pagesPerCopy: number;
+  copies: number;
+  pagesToPrint: string; // Normalized, as it would be stored
+  orientation: Orientation; // Booklets are always landscape
+  estimatedPages: number;
+  sheets: number;
+  impressions: number;
+  estimatedCost: number;
+  currency: string;
+  quotaRemaining: number | null; // Before this print; null when unlimited
+  withinQuota: boolean;
+  approvalReasons: string[]; // Empty when the print would be dispatched without approval
 }
 
-interface CustomPrinterOptions extends ipp.PrinterOptions {
-  username?: string;
-  password?: string;
+export interface PaginatedPrints {
+  items: Print[];
+  total: number; // Matching prints across all pages
+  nextCursor: string | null;
 }
 
 @Injectable()
-export class PrintsService implements OnModuleInit {
+export class PrintsService implements OnModuleInit, OnModuleDestroy {
   private logger = new Logger('PrintsService');
   private printerConnected = false;
-  private readonly adminUsername = process.env.CUPS_ADMIN_USERNAME || 'admin';
-  private readonly adminPassword = process.env.CUPS_ADMIN_PASSWORD || '';
+  private heldPrintSweepTimer?: NodeJS.Timeout;
+  private jobReconcileTimer?: NodeJS.Timeout;
+  private jobEventsSubscription?: Subscription;
+  private dispatchFailuresSubscription?: Subscription;
 
   constructor(
     @InjectModel(Print.name)
     private readonly printModel: Model<PrintDocument>,
     private readonly printsGateway: PrintsGateway,
+    private readonly staffsService: StaffsService,
+    private readonly quotasService: QuotasService,
+    private readonly cupsService: CupsService,
+    private readonly cupsEventsService: CupsEventsService,
+    private readonly printersService: PrintersService,
+    private readonly pricingService: PricingService,
+    private readonly approvalsService: ApprovalsService,
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+    private readonly printQueue: PrintQueueService,
   ) { }
 
   async onModuleInit() {
     await this.initializePrinterConnection();
+    this.heldPrintSweepTimer = setInterval(() => {
+      void this.expireHeldPrints();
+      void this.expireUnapprovedPrints();
+    }, HELD_PRINT_SWEEP_INTERVAL_MS);
+
+    this.jobEventsSubscription = this.cupsEventsService.jobEvents$.subscribe((event) => void this.handleJobEvent(event));
+
+    this.dispatchFailuresSubscription = this.printQueue.failures$.subscribe((failure) => void this.handleDispatchFailure(failure));
+    this.printQueue.registerHandler((printId) => this.dispatchPrint(printId));
+    await this.requeueOrphanedPrints();
+
+    // Pick up jobs that were in flight when the process last stopped, then keep sweeping for drift
+    await this.reconcileJobMonitors();
+    this.jobReconcileTimer = setInterval(
+      () => void this.reconcileJobMonitors(),
+      this.configService.jobReconcileIntervalSeconds * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    this.dispatchFailuresSubscription?.unsubscribe();
+    if (this.heldPrintSweepTimer) {
+      clearInterval(this.heldPrintSweepTimer);
+    }
+    if (this.jobReconcileTimer) {
+      clearInterval(this.jobReconcileTimer);
+    }
+    this.jobEventsSubscription?.unsubscribe();
   }
 
   private async initializePrinterConnection() {
     const maxRetries = 3;
+    const defaultPrinter = this.configService.defaultPrinter;
     let attempt = 0;
 
     while (attempt < maxRetries && !this.printerConnected) {
       try {
-        this.logger.log(`Attempt ${attempt + 1} to connect to printer ${DEFAULT_PRINTER}`);
-        const isPrinterAvailable = await this.checkPrinterStatus(DEFAULT_PRINTER);
+        this.logger.log(`Attempt ${attempt + 1} to connect to printer ${defaultPrinter}`);
+        const isPrinterAvailable = await this.checkPrinterStatus(defaultPrinter);
         this.printerConnected = isPrinterAvailable;
-        this.logger.log(`Printer connection to ${DEFAULT_PRINTER} at ${CUPS_SERVER_IP}: ${isPrinterAvailable ? 'Successful' : 'Failed'}`);
+        this.logger.log(`Printer connection to ${defaultPrinter} at ${this.cupsService.getPrinterUri(defaultPrinter)}: ${isPrinterAvailable ? 'Successful' : 'Failed'}`);
         if (!isPrinterAvailable) {
           throw new Error('Printer check failed');
         }
@@ -105,17 +172,175 @@ export class PrintsService implements OnModuleInit {
     }
   }
 
-  async createPrint(createPrintDto: CreatePrintRequestDto): Promise<Print> {
+  async createPrint(createPrintDto: CreatePrintRequestDto, user: JwtPayload): Promise<Print> {
+    let reservation: QuotaReservation | undefined;
     try {
       const startTime = Date.now();
+      // Resolve who the print is for before spending any time on the document
+      const staff = await this.resolvePrintOwner(createPrintDto, user);
       this.logger.log(`Received print request with fileType: ${createPrintDto.fileType}, buffer size: ${createPrintDto.file?.buffer?.length || 0} bytes, at ${startTime}`);
-      if (!createPrintDto.file?.buffer) {
-        throw new BadRequestException('File buffer is missing');
+      const { buffer: modifiedBuffer, fileName, originalPageCount, pagesPerCopy } = await this.preparePrintDocument(createPrintDto);
+
+      const employeeId = staff.employeeId;
+      const employeeName = staff.fullName;
+      const pagesPrinted = 0;
+
+      // Enforce the monthly page quota before anything is written to disk or sent to CUPS
+      await this.printersService.assertPrinterAccepts(createPrintDto.printer, staff.department, {
+        isColor: createPrintDto.isColor,
+        sides: createPrintDto.sides,
+        paperSize: createPrintDto.paperSize,
+        pageLayout: createPrintDto.pageLayout,
+      });
+      const estimatedPages = pagesPerCopy * createPrintDto.copies;
+      reservation = await this.quotasService.reserveQuota(staff, estimatedPages);
+      const quota = reservation.status;
+      this.logger.log(`Quota check for ${employeeId}: requested ${estimatedPages}, used ${quota.used}, limit ${quota.limit ?? 'unlimited'}`);
+      const costEstimate = await this.pricingService.estimateCost(
+        { pagesPerCopy, copies: createPrintDto.copies, sides: createPrintDto.sides, pageLayout: createPrintDto.pageLayout },
+        { isColor: createPrintDto.isColor, paperSize: createPrintDto.paperSize },
+      );
+      const approval = await this.getApproval(
+        { isColor: createPrintDto.isColor, paperSize: createPrintDto.paperSize, estimatedPages, department: staff.department },
+        createPrintDto.holdForRelease,
+      );
+      // Prints that need approval stay pending until submitPrint has moved them on
+      const initialStatus = createPrintDto.holdForRelease && !approval ? PrintRequestStatus.HELD : PrintRequestStatus.PENDING;
+
+      const printData: Partial<Print> = {
+        employeeId: employeeId,
+        employeeName: employeeName,
+        fileName,
+        fileType: createPrintDto.fileType,
+        printer: createPrintDto.printer,
+        paperSize: createPrintDto.paperSize,
+        copies: createPrintDto.copies,
+        isColor: createPrintDto.isColor ? ColorMode.COLOR : ColorMode.GRAYSCALE,
+        sides: createPrintDto.sides,
+        orientation: createPrintDto.orientation,
+        pageLayout: createPrintDto.pageLayout,
+        margins: createPrintDto.margins,
+        pagesToPrint: createPrintDto.pagesToPrint,
+        requestStatus: initialStatus,
+        pagesPrinted,
+        pages: originalPageCount,
+        estimatedPages,
+        sheets: costEstimate.sheets,
+        impressions: costEstimate.impressions,
+        estimatedCost: costEstimate.cost,
+        currency: costEstimate.currency,
+        department: staff.department,
+        quotaRemaining: quota.remaining === null ? undefined : quota.remaining - estimatedPages,
+        submittedBy: employeeId === user.employeeId ? undefined : user.employeeId,
+        onBehalfOfReason: employeeId === user.employeeId ? undefined : createPrintDto.onBehalfOfReason,
+        approval,
+        statusHistory: [this.initialStatusChange(initialStatus, user)],
+        createdBy: user.employeeId,
+        updatedBy: user.employeeId,
+      };
+
+      if (createPrintDto.holdForRelease) {
+        printData.releasePin = await this.generateReleasePin(createPrintDto.printer);
+        // For prints that need approval the hold only starts once they are approved
+        printData.releaseExpiresAt = approval ? undefined : this.getReleaseExpiry();
+      }
+
+      const print = new this.printModel(printData);
+      const extension = this.getFileExtension(createPrintDto.fileType);
+      const date = new Date().toISOString().split('T')[0];
+      print.fileKey = path.posix.join(employeeId, date, `${print._id.toString()}.${extension}`);
+      // Store the file first so a saved print always has its document, whichever backend is in use
+      await this.storage.put(print.fileKey, modifiedBuffer);
+      this.logger.log(`File stored in ${this.storage.type} storage: ${print.fileKey}, took ${Date.now() - startTime}ms`);
+      const savedPrint = await print.save().catch(async (error: unknown) => {
+        await this.storage.delete(print.fileKey as string).catch(() => false);
+        throw error;
+      });
+
+      this.printsGateway.emitPrintUpdate(savedPrint.toObject());
+      return await this.submitPrint(savedPrint, user);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error(`Failed to create print job: ${errorMessage}`);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(`Failed to create print job: ${errorMessage}`);
+    } finally {
+      await reservation?.release();
+    }
+  }
+
+  /**
+   * Runs the submission pipeline without saving or printing anything, so users can see how many
+   * pages, sheets and how much money a print will take before they commit to it. Printer checks
+   * still fail like a submission would; the quota and approval rules are only reported.
+   */
+  async previewPrint(createPrintDto: CreatePrintRequestDto, user: JwtPayload): Promise<PrintPreview> {
+    try {
+      const staff = await this.resolvePrintOwner(createPrintDto, user);
+      const { originalPageCount, printablePageCount, pagesPerCopy } = await this.preparePrintDocument(createPrintDto);
+
+      await this.printersService.assertPrinterAccepts(createPrintDto.printer, staff.department, {
+        isColor: createPrintDto.isColor,
+        sides: createPrintDto.sides,
+        paperSize: createPrintDto.paperSize,
+        pageLayout: createPrintDto.pageLayout,
+      });
+      const estimatedPages = pagesPerCopy * createPrintDto.copies;
+      const quota = await this.quotasService.getQuotaStatus(staff);
+      const costEstimate = await this.pricingService.estimateCost(
+        { pagesPerCopy, copies: createPrintDto.copies, sides: createPrintDto.sides, pageLayout: createPrintDto.pageLayout },
+        { isColor: createPrintDto.isColor, paperSize: createPrintDto.paperSize },
+      );
+      const approvalReasons = await this.approvalsService.getApprovalReasons({
+        isColor: createPrintDto.isColor,
+        paperSize: createPrintDto.paperSize,
+        estimatedPages,
+        department: staff.department,
+      });
+
+      return {
+        pages: originalPageCount,
+        printablePages: printablePageCount,
+        pagesPerCopy,
+        copies: createPrintDto.copies,
+        pagesToPrint: createPrintDto.pagesToPrint,
+        orientation: createPrintDto.orientation,
+        estimatedPages,
+        sheets: costEstimate.sheets,
+        impressions: costEstimate.impressions,
+        estimatedCost: costEstimate.cost,
+        currency: costEstimate.currency,
+        quotaRemaining: quota.remaining,
+        withinQuota: quota.remaining === null || estimatedPages <= quota.remaining,
+        approvalReasons,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.logger.error(`Failed to preview print job: ${errorMessage}`);
+      if (error instanceof HttpException) {
+        throw error;
       }
+      throw new InternalServerErrorException(`Failed to preview print job: ${errorMessage}`);
+    }
+  }
 
-      let buffer = createPrintDto.file.buffer;
-      let tempInputPath: string | undefined;
-      let tempPdfPath: string | undefined;
+  /**
+   * Turns the upload into the document that will be stored and printed: converts office files to
+   * PDF, counts pages, reorders booklets and applies the sheet range, then checks pagesToPrint and
+   * copies. Shared by createPrint and previewPrint; normalizes orientation and pagesToPrint on the DTO.
+   */
+  private async preparePrintDocument(createPrintDto: CreatePrintRequestDto): Promise<PreparedPrintDocument> {
+    const file = createPrintDto.file;
+    if (!file?.buffer) {
+      throw new BadRequestException('File buffer is missing');
+    }
+
+    let tempInputPath: string | undefined;
+    let tempPdfPath: string | undefined;
+    try {
+      let buffer = file.buffer;
 
       // Validate file is a PDF by checking magic number
       if (createPrintDto.fileType.toLowerCase().includes('pdf')) {
@@ -136,10 +361,10 @@ export class PrintsService implements OnModuleInit {
         // For DOCX/XLSX, convert to PDF and count pages
         const extension = this.getFileExtension(createPrintDto.fileType);
         const tempDir = os.tmpdir();
-        tempInputPath = path.join(tempDir, `${createPrintDto.file.originalname}.${extension}`);
+        tempInputPath = path.join(tempDir, `${file.originalname}.${extension}`);
         await fs.writeFile(tempInputPath, buffer);
         try {
-          tempPdfPath = await this.convertToPdf(tempInputPath, createPrintDto.file.originalname);
+          tempPdfPath = await this.convertToPdf(tempInputPath, file.originalname);
           const pdfBuffer = await fs.readFile(tempPdfPath);
           const pdfDoc = await PDFDocument.load(pdfBuffer);
           originalPageCount = pdfDoc.getPageCount();
@@ -153,6 +378,7 @@ export class PrintsService implements OnModuleInit {
       }
 
       let modifiedBuffer: Buffer = buffer;
+      let printablePageCount = originalPageCount;
 
       // Override orientation to landscape for booklet mode to match Adobe Acrobat
       if (createPrintDto.pageLayout === PageLayout.BOOKLET) {
@@ -164,9 +390,9 @@ export class PrintsService implements OnModuleInit {
           if (!tempPdfPath) {
             // If tempPdfPath wasn't created during page counting, convert now
             const extension = this.getFileExtension(createPrintDto.fileType);
-            tempInputPath = tempInputPath || path.join(os.tmpdir(), `${createPrintDto.file.originalname}.${extension}`);
+            tempInputPath = tempInputPath || path.join(os.tmpdir(), `${file.originalname}.${extension}`);
             await fs.writeFile(tempInputPath, buffer);
-            tempPdfPath = await this.convertToPdf(tempInputPath, createPrintDto.file.originalname);
+            tempPdfPath = await this.convertToPdf(tempInputPath, file.originalname);
             modifiedBuffer = await fs.readFile(tempPdfPath);
             this.logger.log(`Converted ${createPrintDto.fileType} to PDF for booklet processing`);
           } else {
@@ -222,6 +448,7 @@ export class PrintsService implements OnModuleInit {
           this.logger.log(`Filtered pages for sheets ${sheetsFrom} to ${sheetsTo}: ${finalPageOrder.join(', ')}`);
         }
 
+        printablePageCount = finalPageOrder.length;
         const newPdf = await PDFDocument.create();
         const copiedPages = await newPdf.copyPages(pdfDoc, finalPageOrder);
         for (const page of copiedPages) {
@@ -232,87 +459,40 @@ export class PrintsService implements OnModuleInit {
         this.logger.log(`PDF reordered for booklet printing`);
       }
 
-      // Validate pagesToPrint
-      if (createPrintDto.pagesToPrint !== 'all') {
-        if (createPrintDto.pagesToPrint.includes('-')) {
-          const [start, end] = createPrintDto.pagesToPrint.split('-').map(num => parseInt(num, 10));
-          if (isNaN(start) || isNaN(end) || start < 1 || end < start) {
-            throw new BadRequestException(`Invalid page range: ${createPrintDto.pagesToPrint}. Must be a valid range (e.g., "1-5").`);
-          }
-        } else {
-          const page = parseInt(createPrintDto.pagesToPrint, 10);
-          if (isNaN(page) || page < 1) {
-            throw new BadRequestException(`Invalid page to print: ${createPrintDto.pagesToPrint}. Must be a positive integer.`);
-          }
+      // Validate pagesToPrint against the document so the estimate and the IPP page-ranges agree
+      let pagesPerCopy = printablePageCount;
+      if (createPrintDto.pagesToPrint !== ALL_PAGES) {
+        if (createPrintDto.pageLayout === PageLayout.BOOKLET) {
+          throw new BadRequestException('Page ranges cannot be combined with booklet printing; use sheetsFrom and sheetsTo instead');
         }
+        let selectedPages: number[];
+        try {
+          selectedPages = parsePageRanges(createPrintDto.pagesToPrint, printablePageCount);
+        } catch (error) {
+          throw new BadRequestException(error instanceof Error ? error.message : 'Invalid page range');
+        }
+        createPrintDto.pagesToPrint = formatPageRanges(selectedPages);
+        pagesPerCopy = selectedPages.length;
       }
 
       if (isNaN(createPrintDto.copies) || createPrintDto.copies < 1) {
         throw new BadRequestException('Invalid copies number');
       }
 
-      const employeeId = createPrintDto.employeeId;
-      const employeeName = createPrintDto.employeeName;
-      const pagesPrinted = 0;
-
-      const printData: Partial<Print> = {
-        employeeId: employeeId,
-        employeeName: employeeName,
-        fileName: createPrintDto.file.originalname,
-        fileType: createPrintDto.fileType,
-        printer: createPrintDto.printer,
-        paperSize: createPrintDto.paperSize,
-        copies: createPrintDto.copies,
-        isColor: createPrintDto.isColor ? ColorMode.COLOR : ColorMode.GRAYSCALE,
-        sides: createPrintDto.sides,
-        orientation: createPrintDto.orientation,
-        pageLayout: createPrintDto.pageLayout,
-        margins: createPrintDto.margins,
-        pagesToPrint: createPrintDto.pagesToPrint,
-        requestStatus: PrintRequestStatus.PENDING,
-        pagesPrinted,
-        pages: originalPageCount,
-        createdBy: employeeId,
-        updatedBy: employeeId,
-      };
-
-      const savedPrint = await new this.printModel(printData).save();
-
-      const extension = this.getFileExtension(createPrintDto.fileType);
-      const date = new Date().toISOString().split('T')[0];
-      const filePath = path.join(
-        UPLOAD_BASE_PATH,
-        employeeId,
-        date,
-        `${savedPrint._id.toString()}.${extension}`,
-      );
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-      await fs.writeFile(filePath, modifiedBuffer);
-      this.logger.log(`File saved: ${filePath}, took ${Date.now() - startTime}ms`);
-
-      this.printsGateway.emitPrintUpdate(savedPrint.toObject());
-
-      void this.sendToCups(savedPrint, filePath);
-
-      // Clean up temporary files
+      return { buffer: modifiedBuffer, fileName: file.originalname, originalPageCount, printablePageCount, pagesPerCopy };
+    } finally {
       if (tempInputPath) {
         await fs.unlink(tempInputPath).catch(err => this.logger.error(`Failed to delete temporary file ${tempInputPath}: ${err}`));
       }
       if (tempPdfPath) {
         await fs.unlink(tempPdfPath).catch(err => this.logger.error(`Failed to delete temporary PDF ${tempPdfPath}: ${err}`));
       }
-
-      return savedPrint;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      this.logger.error(`Failed to create print job: ${errorMessage}`);
-      throw new InternalServerErrorException(`Failed to create print job: ${errorMessage}`);
     }
   }
 
   private async checkCupsAvailability(): Promise<boolean> {
     try {
-      const response: Response = await fetch(`http://${CUPS_SERVER_IP}:631`);
+      const response: Response = await fetch(this.cupsService.serverUrl);
       this.logger.log(`CUPS availability check: ${response.ok ? 'OK' : 'Failed'}`);
       return response.ok;
     } catch (error) {
@@ -322,47 +502,32 @@ export class PrintsService implements OnModuleInit {
   }
 
   private async checkPrinterStatus(printerName: string): Promise<boolean> {
+    const params: IPPParams = {
+      'operation-attributes-tag': {
+        'requested-attributes': ['printer-state', 'printer-state-reasons', 'printer-is-accepting-jobs'],
+      },
+    };
+    let res: IPPResponse;
     try {
-      const options: CustomPrinterOptions = {
-        username: this.adminUsername,
-        password: this.adminPassword,
-      };
-      const printer = new ipp.Printer(`ipp://${CUPS_SERVER_IP}:631/printers/${printerName}`, options) as IPPPrinter;
-      return new Promise((resolve) => {
-        const params: Params = {
-          'operation-attributes-tag': {
-            'requested-attributes': ['printer-state', 'printer-state-reasons', 'printer-is-accepting-jobs'],
-          },
-        };
-        if (this.adminPassword) {
-          params['operation-attributes-tag']['requesting-user-name'] = this.adminUsername;
-        }
-        printer.execute('Get-Printer-Attributes', params, (err: Error | null, res: IPPResponse) => {
-          if (err) {
-            this.logger.error(`Printer status check error: ${err.message}`);
-            this.logger.log(`IPP error details: ${JSON.stringify(err)}`);
-            resolve(false);
-            return;
-          }
-          if (!res || !res['printer-attributes-tag']) {
-            this.logger.error(`Printer status check failed: Invalid or missing response`);
-            this.logger.log(`IPP response: ${JSON.stringify(res)}`);
-            resolve(false);
-            return;
-          }
-          const printerState = res['printer-attributes-tag']['printer-state'];
-          const stateReasons = res['printer-attributes-tag']['printer-state-reasons'] || 'unknown';
-          const acceptingJobs = res['printer-attributes-tag']['printer-is-accepting-jobs'] ?? false;
-          const reasonsString = Array.isArray(stateReasons) ? stateReasons.join(', ') : stateReasons;
-          this.logger.log(`Printer ${printerName} state: ${printerState}, reasons: ${reasonsString}, accepting: ${acceptingJobs}`);
-          const isIdle = printerState === 'idle' || printerState === 3;
-          resolve(isIdle && acceptingJobs);
-        });
-      });
+      res = await this.cupsService.execute(printerName, 'Get-Printer-Attributes', params);
     } catch (error) {
-      this.logger.error(`Printer status check exception: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error(`Printer status check error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.log(`IPP error details: ${JSON.stringify(error)}`);
+      return false;
+    }
+    if (!res['printer-attributes-tag']) {
+      this.logger.error(`Printer status check failed: Invalid or missing response`);
+      this.logger.log(`IPP response: ${JSON.stringify(res)}`);
       return false;
     }
+    const printerState = res['printer-attributes-tag']['printer-state'];
+    const stateReasons = res['printer-attributes-tag']['printer-state-reasons'] || 'unknown';
+    const acceptingJobs = res['printer-attributes-tag']['printer-is-accepting-jobs'] ?? false;
+    const reasonsString = Array.isArray(stateReasons) ? stateReasons.join(', ') : stateReasons;
+    this.logger.log(`Printer ${printerName} state: ${printerState}, reasons: ${reasonsString}, accepting: ${acceptingJobs}`);
+    // A busy printer still takes jobs into its CUPS queue; only a stopped one is worth waiting for
+    const isStopped = printerState === 'stopped' || printerState === 5;
+    return !isStopped && acceptingJobs;
   }
 
   private async convertToPdf(filePath: string, fileName: string): Promise<string> {
@@ -411,7 +576,13 @@ export class PrintsService implements OnModuleInit {
     }
   }
 
-  async sendToCups(print: PrintDocument, filePath: string): Promise<void> {
+  /**
+   * Hands a print over to CUPS with an IPP Print-Job request. Called by the dispatch queue, which
+   * retries whatever this throws unless it is a PermanentDispatchError, so nothing may throw once
+   * CUPS has accepted the job.
+   */
+  async sendToCups(print: PrintDocument): Promise<void> {
+    let tempFilePath: string | undefined;
     let tempPdfPath: string | undefined;
     try {
       const isCupsAvailable = await this.checkCupsAvailability();
@@ -424,108 +595,168 @@ export class PrintsService implements OnModuleInit {
         throw new Error('Printer is offline or unavailable');
       }
 
-      this.logger.log(`Sending file to CUPS: ${filePath}`);
+      const fileKey = this.getFileKey(print);
+      if ((await this.storage.size(fileKey)) === null) {
+        throw new PermanentDispatchError(`Stored file ${fileKey} is missing`);
+      }
+      let document = await this.storage.get(fileKey);
+
+      // Office documents are stored already converted to PDF; convert anything that is not one yet
+      if (document.toString('hex', 0, 4).toUpperCase() !== '25504446') {
+        tempFilePath = path.join(os.tmpdir(), `${print._id.toString()}${path.extname(fileKey)}`);
+        await fs.writeFile(tempFilePath, document);
+        tempPdfPath = await this.convertToPdf(tempFilePath, print.fileName || '').catch((error: unknown) => {
+          throw new PermanentDispatchError(error instanceof Error ? error.message : 'PDF conversion failed');
+        });
+        document = await fs.readFile(tempPdfPath);
+      }
 
-      const lpOptions: string[] = [];
-      lpOptions.push(`-d ${print.printer}`);
-      lpOptions.push(`-n ${print.copies}`);
-      lpOptions.push(`-o media=${print.paperSize}`);
-      lpOptions.push(`-o print-color-mode=${print.isColor === ColorMode.COLOR ? 'color' : 'monochrome'}`);
+      const attributes = this.buildJobAttributes(print);
 
-      const isXlsx = print.fileName?.toLowerCase().endsWith('.xlsx') ||
-        print.fileType?.toLowerCase() === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-        print.fileType?.toLowerCase() === 'xlsx';
+      // The request may have been canceled while we were checking the printer
+      const current = await this.printModel.findById(print._id).select('requestStatus').exec();
+      if (current?.requestStatus === PrintRequestStatus.CANCELED) {
+        this.logger.log(`Print ${print._id.toString()} was canceled before dispatch, skipping Print-Job`);
+        return;
+      }
 
-      if (print.sides === Sides.DOUBLE) {
-        if (print.pageLayout === PageLayout.BOOKLET) {
-          lpOptions.push('-o sides=two-sided-short-edge');
-        } else {
-          lpOptions.push('-o sides=two-sided-long-edge');
+      this.logger.log(`Sending print ${print._id.toString()} to ${print.printer}: ${attributes.map((a) => `${a.name}=${a.values.map((v) => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join('/')}`).join(' ')}`);
+      let jobId: number | undefined;
+      try {
+        jobId = await this.cupsService.printJob(print.printer, document, {
+          jobName: print.fileName,
+          documentFormat: 'application/pdf',
+          attributes,
+        });
+      } catch (error) {
+        // CUPS understood the request and refused it; sending the same request again will not help
+        if (error instanceof IppStatusError && error.isClientError) {
+          throw new PermanentDispatchError(error.message);
         }
-      } else {
-        lpOptions.push('-o sides=one-sided');
+        throw error;
       }
-
-      lpOptions.push(`-o orientation-requested=${print.orientation === Orientation.SIDEWAYS ? 'landscape' : 'portrait'}`);
-
-      lpOptions.push(`-o number-up=${print.pageLayout === PageLayout.BOOKLET ? 2 : 1}`);
-      if (print.pageLayout === PageLayout.BOOKLET) {
-        lpOptions.push('-o number-up-layout=btlr');
+      if (jobId === undefined) {
+        // CUPS did accept the job; retrying could print it twice
+        throw new PermanentDispatchError('Print-Job succeeded but returned no job ID');
       }
+      this.logger.log(`Print job ${jobId} sent to printer ${print.printer}`);
 
-      if (isXlsx) {
-        lpOptions.push('-o fit-to-page');
-        lpOptions.push('-o media-left-margin=720');
-        lpOptions.push('-o media-right-margin=720');
-        lpOptions.push('-o media-top-margin=720');
-        lpOptions.push('-o media-bottom-margin=720');
-        this.logger.log('Applying XLSX settings: fit-to-page, default margins (720), user-specified orientation');
-      } else {
-        lpOptions.push(`-o media-left-margin=${print.margins === Margin.NORMAL ? 720 : 360}`);
-        lpOptions.push(`-o media-right-margin=${print.margins === Margin.NORMAL ? 720 : 360}`);
-        lpOptions.push(`-o media-top-margin=${print.margins === Margin.NORMAL ? 720 : 360}`);
-        lpOptions.push(`-o media-bottom-margin=${print.margins === Margin.NORMAL ? 720 : 360}`);
+      // Only logged on failure: throwing now would make the queue send the job a second time
+      const recorded = await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.SENT_TO_PRINTER, {
+        source: PrintStatusSource.SYSTEM,
+        jobId: String(jobId),
+      }).then(() => true, async (error: unknown) => {
+        this.logger.error(`Failed to record job ${jobId} for print ${print._id.toString()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // The print was canceled (or otherwise finished) while Print-Job was in flight
+        return error instanceof ConflictException ? !(await this.cancelUnrecordedJob(print, String(jobId))) : true;
+      });
+      if (recorded) {
+        this.monitorPrintJob(print, String(jobId));
       }
-
-      if (print.pagesToPrint !== 'all') {
-        if (print.pagesToPrint.includes('-')) {
-          lpOptions.push(`-P ${print.pagesToPrint}`);
-        } else {
-          const page = parseInt(print.pagesToPrint, 10);
-          if (isNaN(page) || page < 1) {
-            throw new Error(`Invalid page range: ${print.pagesToPrint}`);
-          }
-          lpOptions.push(`-P ${page}`);
+    } catch (error: unknown) {
+      const errorMessage = (error instanceof Error) ? error.message : 'Unknown error occurred';
+      this.logger.error(`Failed to send print ${print._id.toString()} to CUPS: ${errorMessage}`);
+      throw error;
+    } finally {
+      for (const tempPath of [tempFilePath, tempPdfPath]) {
+        if (tempPath && await fs.access(tempPath).then(() => true).catch(() => false)) {
+          await fs.unlink(tempPath).catch(err => this.logger.error(`Failed to delete temporary file ${tempPath}: ${err}`));
         }
       }
+    }
+  }
 
-      if (this.adminPassword) {
-        lpOptions.push(`-U ${this.adminUsername}`);
-      }
+  /**
+   * Takes a job back out of CUPS when its print reached a final status before the job ID could be
+   * recorded, e.g. a cancel that came in while Print-Job was running. Returns whether it did.
+   */
+  private async cancelUnrecordedJob(print: PrintDocument, jobId: string): Promise<boolean> {
+    const current = await this.printModel.findById(print._id).select('requestStatus').exec();
+    if (!current || !TERMINAL_REQUEST_STATUSES.includes(current.requestStatus)) {
+      return false;
+    }
+    try {
+      await this.cupsService.cancelJob(print.printer, jobId);
+      this.logger.warn(`Canceled job ${jobId}: print ${print._id.toString()} became ${current.requestStatus} while it was being sent`);
+    } catch (error) {
+      this.logger.error(`Failed to cancel job ${jobId} of ${current.requestStatus} print ${print._id.toString()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    // Kept for reference so the job can still be found in CUPS
+    await this.printModel.updateOne({ _id: print._id }, { $set: { jobId } }).exec().catch(() => undefined);
+    return true;
+  }
 
-      if (!print.fileName?.toLowerCase().endsWith('.pdf')) {
-        tempPdfPath = await this.convertToPdf(filePath, print.fileName || '');
-        if (tempPdfPath) {
-          filePath = tempPdfPath;
-        } else {
-          throw new Error('PDF conversion failed: No output file produced');
-        }
-      }
+  // Maps a print onto IPP job attributes (the equivalents of lp's -o options)
+  private buildJobAttributes(print: Print): IppAttribute[] {
+    const isXlsx = print.fileName?.toLowerCase().endsWith('.xlsx') ||
+      print.fileType?.toLowerCase() === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+      print.fileType?.toLowerCase() === 'xlsx';
+    const isBooklet = print.pageLayout === PageLayout.BOOKLET;
 
-      const lpCommand = `lp ${lpOptions.join(' ')} "${filePath}"`;
-      this.logger.log(`Executing lp command: ${lpCommand}`);
+    let sides = 'one-sided';
+    if (print.sides === Sides.DOUBLE) {
+      sides = isBooklet ? 'two-sided-short-edge' : 'two-sided-long-edge';
+    }
 
-      const { stdout, stderr } = await execPromise(lpCommand);
-      if (stderr) {
-        this.logger.error(`lp command error: ${stderr}`);
-        throw new Error(`lp command failed: ${stderr}`);
-      }
+    const attributes: IppAttribute[] = [
+      { tag: IPP_VALUE_TAGS.INTEGER, name: 'copies', values: [print.copies] },
+      { tag: IPP_VALUE_TAGS.KEYWORD, name: 'print-color-mode', values: [print.isColor === ColorMode.COLOR ? 'color' : 'monochrome'] },
+      { tag: IPP_VALUE_TAGS.KEYWORD, name: 'sides', values: [sides] },
+      // orientation-requested enum: 3 = portrait, 4 = landscape
+      { tag: IPP_VALUE_TAGS.ENUM, name: 'orientation-requested', values: [print.orientation === Orientation.SIDEWAYS ? 4 : 3] },
+      { tag: IPP_VALUE_TAGS.INTEGER, name: 'number-up', values: [isBooklet ? 2 : 1] },
+    ];
+    if (isBooklet) {
+      attributes.push({ tag: IPP_VALUE_TAGS.KEYWORD, name: 'number-up-layout', values: ['btlr'] });
+    }
 
-      const match = stdout.match(/request id is \S+-(\d+)/);
-      if (!match || !match[1]) {
-        throw new Error('Failed to parse job ID from lp output');
-      }
-      const jobId = match[1];
-      this.logger.log(`Print job ${jobId} sent to printer ${print.printer}`);
+    // Margins are in hundredths of a millimetre; spreadsheets are always scaled onto the page with normal margins
+    const margin = isXlsx || print.margins === Margin.NORMAL ? 720 : 360;
+    if (isXlsx) {
+      attributes.push({ tag: IPP_VALUE_TAGS.BOOLEAN, name: 'fit-to-page', values: [true] });
+    }
+    // Margins only exist as media-col members, and media-col replaces the media keyword, so the size goes in it too
+    const [width, height] = PAPER_SIZE_DIMENSIONS[print.paperSize as PaperSize] ?? PAPER_SIZE_DIMENSIONS.A4;
+    const mediaCol: IppAttribute[] = [
+      {
+        tag: IPP_VALUE_TAGS.BEGIN_COLLECTION,
+        name: 'media-size',
+        values: [[
+          { tag: IPP_VALUE_TAGS.INTEGER, name: 'x-dimension', values: [width] },
+          { tag: IPP_VALUE_TAGS.INTEGER, name: 'y-dimension', values: [height] },
+        ]],
+      },
+    ];
+    for (const side of ['left', 'right', 'top', 'bottom']) {
+      mediaCol.push({ tag: IPP_VALUE_TAGS.INTEGER, name: `media-${side}-margin`, values: [margin] });
+    }
+    attributes.push({ tag: IPP_VALUE_TAGS.BEGIN_COLLECTION, name: 'media-col', values: [mediaCol] });
 
-      void this.updatePrintStatus(
-        print._id.toString(),
-        PrintRequestStatus.SENT_TO_PRINTER,
-        jobId,
-        new Date(),
-        undefined,
-        undefined,
-      );
-      this.monitorPrintJob(print, jobId);
-    } catch (error: unknown) {
-      const errorMessage = (error instanceof Error) ? error.message : 'Unknown error occurred';
-      this.logger.error(`Failed to send to CUPS: ${errorMessage}`);
-      void this.updatePrintStatus(print._id.toString(), PrintRequestStatus.FAILED, undefined, null, errorMessage);
-    } finally {
-      if (tempPdfPath && await fs.access(tempPdfPath).then(() => true).catch(() => false)) {
-        await fs.unlink(tempPdfPath).catch(err => this.logger.error(`Failed to delete temporary file ${tempPdfPath}: ${err}`));
-      }
+    if (print.pagesToPrint !== ALL_PAGES) {
+      attributes.push({ tag: IPP_VALUE_TAGS.RANGE_OF_INTEGER, name: 'page-ranges', values: toPageRangePairs(parsePageRanges(print.pagesToPrint)) });
     }
+    return attributes;
+  }
+
+  // The token decides who is printing; only admins and kiosk accounts may print for someone else
+  private async resolvePrintOwner(createPrintDto: CreatePrintRequestDto, user: JwtPayload): Promise<Staff> {
+    const employeeId = createPrintDto.onBehalfOf ?? user.employeeId;
+    const onBehalf = employeeId !== user.employeeId;
+    if (onBehalf && !hasRole(user, StaffRole.ADMIN, StaffRole.KIOSK)) {
+      throw new ForbiddenException('Only admins and kiosk accounts can print on behalf of another employee');
+    }
+
+    const staff = await this.staffsService.getStaffByEmployeeId(employeeId);
+    if (!staff) {
+      throw new BadRequestException(`Staff with employee ID ${employeeId} not found`);
+    }
+    if (staff.isActive === false) {
+      throw new ForbiddenException(`Staff with employee ID ${employeeId} is disabled`);
+    }
+    if (onBehalf) {
+      this.logger.warn(`${user.employeeId} is submitting a print on behalf of ${employeeId}: ${createPrintDto.onBehalfOfReason}`);
+    }
+    return staff;
   }
 
   private getFileExtension(fileType: string): string {
@@ -537,81 +768,121 @@ export class PrintsService implements OnModuleInit {
       throw new BadRequestException(`Invalid file type: ${normalizedFileType}. Supported types are: ${VALID_FILE_TYPES.join(', ')}`);
     }
 
-    switch (normalizedFileType as FileType) {
-      case 'application/pdf':
-      case 'pdf':
-        return 'pdf';
-      case 'application/msword':
-      case 'doc':
-        return 'doc';
-      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-      case 'docx':
-        return 'docx';
-      case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
-      case 'xlsx':
-        return 'xlsx';
-      default:
-        this.logger.error(`Invalid file type received: ${normalizedFileType}`);
-        throw new BadRequestException(`Invalid file type: ${normalizedFileType}`);
-    }
+    return FILE_EXTENSIONS[normalizedFileType as FileType];
   }
 
-  private getMimeType(filePath: string): string {
-    const extension = path.extname(filePath).toLowerCase().replace('.', '');
-    switch (extension) {
-      case 'pdf':
-        return 'application/pdf';
-      case 'doc':
-      case 'docx':
-        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-      case 'xlsx':
-        return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      default:
-        throw new BadRequestException('Unsupported file type');
+  /**
+   * Moves a print to another status, appending the change to statusHistory. Changes that are not in
+   * PRINT_STATUS_TRANSITIONS are rejected with a ConflictException; repeating the current status
+   * only updates the other fields and adds no history entry.
+   */
+  async updatePrintStatus(printId: string, status: PrintRequestStatus, options: StatusUpdateOptions): Promise<Print> {
+    const print = await this.getExistingPrint(printId);
+    const current = print.requestStatus;
+    const changed = status !== current;
+    if (changed && !PRINT_STATUS_TRANSITIONS[current].includes(status)) {
+      throw new ConflictException(`Print ${printId} cannot go from ${current} to ${status}`);
     }
-  }
 
-  async updatePrintStatus(
-    printId: string,
-    status: PrintRequestStatus,
-    jobId: string | undefined,
-    timestamp: Date | null,
-    errorMessage?: string,
-    pagesPrinted?: number,
-  ): Promise<void> {
-    try {
-      const updateData: Partial<Print> = {
-        requestStatus: status,
-        jobId,
-        errorMessage,
+    const at = options.timestamp ?? new Date();
+    const set: Record<string, unknown> = { requestStatus: status };
+    const unset: Record<string, 1> = {};
+    if (options.jobId !== undefined) {
+      set.jobId = options.jobId;
+    }
+    if (options.pagesPrinted !== undefined) {
+      set.pagesPrinted = options.pagesPrinted;
+    }
+    if (options.actor && options.source === PrintStatusSource.USER) {
+      set.updatedBy = options.actor;
+    }
+    if (options.errorMessage !== undefined) {
+      set.errorMessage = options.errorMessage;
+    } else if (changed) {
+      unset.errorMessage = 1; // Messages describe the status they were set with
+    }
+    if (changed && status === PrintRequestStatus.SENT_TO_PRINTER && !print.jobStartTime) {
+      set.jobStartTime = at.toISOString();
+    }
+    if (changed && TERMINAL_REQUEST_STATUSES.includes(status)) {
+      set.jobEndTime = at.toISOString();
+    }
+
+    const update: Record<string, unknown> = { $set: set };
+    if (Object.keys(unset).length > 0) {
+      update.$unset = unset;
+    }
+    if (changed) {
+      const entry: PrintStatusChange = {
+        status,
+        from: current,
+        at,
+        source: options.source,
+        actor: options.actor,
+        jobStateReasons: options.jobStateReasons?.length ? options.jobStateReasons : undefined,
+        message: options.errorMessage ?? options.note,
       };
+      update.$push = { statusHistory: entry };
+    }
 
-      if (typeof pagesPrinted !== 'undefined') {
-        updateData.pagesPrinted = pagesPrinted;
-      }
+    // Conditional on the status the change was checked against, so concurrent updates cannot skip the check
+    const updatedPrint = await this.printModel.findOneAndUpdate({ _id: print._id, requestStatus: current }, update, { new: true }).exec();
+    if (!updatedPrint) {
+      throw new ConflictException(`Print ${printId} changed status while it was being updated to ${status}`);
+    }
+    if (changed) {
+      this.logger.log(`Print ${printId} moved from ${current} to ${status} (${options.source}${options.actor ? ` ${options.actor}` : ''})`);
+    }
+    this.printsGateway.emitPrintUpdate(updatedPrint.toObject());
+    return updatedPrint;
+  }
 
-      if (timestamp) {
-        updateData.jobStartTime = status === PrintRequestStatus.SENT_TO_PRINTER ? timestamp.toISOString() : undefined;
-        updateData.jobEndTime =
-          status === PrintRequestStatus.FAILED || status === PrintRequestStatus.COMPLETED ? timestamp.toISOString() : undefined;
-      }
+  // Marks the print as queued and hands it to the dispatch queue
+  private async queuePrint(printId: string, printer: string, source: PrintStatusSource, actor?: string, note?: string): Promise<Print> {
+    const queuedPrint = await this.updatePrintStatus(printId, PrintRequestStatus.QUEUED, { source, actor, note });
+    await this.printQueue.enqueue(printId, printer);
+    return queuedPrint;
+  }
 
-      await this.printModel.updateOne({ _id: printId }, { $set: updateData });
+  private initialStatusChange(status: PrintRequestStatus, user: JwtPayload): PrintStatusChange {
+    return { status, at: new Date(), source: PrintStatusSource.USER, actor: user.employeeId };
+  }
 
-      const updatedPrint = await this.printModel.findById(printId).exec();
-      if (updatedPrint) {
-        this.logger.log(`Emitting full print update for print ${printId}`);
-        this.printsGateway.emitPrintUpdate(updatedPrint.toObject());
-      } else {
-        this.logger.error(`Print ${printId} not found after update`);
-      }
-    } catch (error) {
-      this.logger.error(`Failed to update print status for ${printId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  // Status pushed by an external source (CUPS notifier, printer-side script) through the signed webhook
+  async applyWebhookStatus(statusDto: PrintStatusWebhookDto): Promise<Print> {
+    const print = await this.getExistingPrint(statusDto.printId);
+    const current = print.requestStatus;
+    const next = statusDto.requestStatus;
+    if (TERMINAL_REQUEST_STATUSES.includes(current)) {
+      throw new ConflictException(`Print ${statusDto.printId} is already ${current}`);
+    }
+    // Repeating the current status is allowed so sources can add details to an active print
+    if (next !== current && !WEBHOOK_STATUS_TRANSITIONS[current].includes(next)) {
+      throw new ConflictException(`Print ${statusDto.printId} cannot go from ${current} to ${next}`);
     }
+
+    const completed = next === PrintRequestStatus.COMPLETED;
+    let updatedPrint = await this.updatePrintStatus(statusDto.printId, next, {
+      source: PrintStatusSource.WEBHOOK,
+      actor: statusDto.source,
+      jobId: statusDto.jobId,
+      timestamp: statusDto.occurredAt ? new Date(statusDto.occurredAt) : undefined,
+      errorMessage: statusDto.errorMessage,
+      pagesPrinted: statusDto.pagesPrinted ?? (completed ? print.estimatedPages : undefined),
+    });
+    // Priced like CUPS completions, but only once the transition has won; without printer counters the submission figures are used
+    if (completed) {
+      await this.recordActualCost(print, 0, 0);
+      updatedPrint = (await this.printModel.findById(print._id).exec()) ?? updatedPrint;
+    }
+    if (TERMINAL_REQUEST_STATUSES.includes(next)) {
+      await this.printQueue.remove(statusDto.printId);
+    }
+    return updatedPrint;
   }
 
-  async getAllPrints(): Promise<Print[]> {
-    return this.printModel.find().sort({ updatedAt: -1 }).exec();
+  async getAllPrints(query: QueryPrintsDto): Promise<PaginatedPrints> {
+    return this.findPrints(this.buildPrintsFilter(query), query);
   }
 
   async getPrintById(id: string): Promise<Print | null> {
@@ -621,11 +892,609 @@ export class PrintsService implements OnModuleInit {
     return this.printModel.findById(id).exec();
   }
 
-  async getPrintsByEmployeeId(employeeId: string): Promise<Print[]> {
+  // Staff may only read their own prints, approvers those of their department and admins anyone's
+  async getPrintForUser(id: string, user: JwtPayload): Promise<Print | null> {
+    const print = await this.getPrintById(id);
+    if (print && print.employeeId !== user.employeeId && !hasRole(user, StaffRole.ADMIN)) {
+      const department = await this.getViewerDepartment(user);
+      if (print.department?.toLowerCase() !== department.toLowerCase()) {
+        throw new ForbiddenException('You can only view print jobs from your own department');
+      }
+    }
+    return print;
+  }
+
+  async getPrintsByEmployeeId(employeeId: string, query: QueryPrintsDto, user: JwtPayload): Promise<PaginatedPrints> {
     if (!employeeId) {
       throw new BadRequestException('Employee ID is required');
     }
-    return this.printModel.find({ employeeId }).sort({ updatedAt: -1 }).exec();
+    // Approvers looking at someone else only see the prints made in their own department
+    const ownOrAdmin = employeeId === user.employeeId || hasRole(user, StaffRole.ADMIN);
+    const department = ownOrAdmin ? query.department : await this.getViewerDepartment(user);
+    // The path parameter always wins over an employeeId filter in the query string
+    return this.findPrints(this.buildPrintsFilter({ ...query, employeeId, department }), query);
+  }
+
+  private async getViewerDepartment(user: JwtPayload): Promise<string> {
+    if (!hasRole(user, StaffRole.APPROVER)) {
+      throw new ForbiddenException('You can only view your own print jobs');
+    }
+    return this.getApproverDepartment(user);
+  }
+
+  private buildPrintsFilter(query: QueryPrintsDto): Record<string, unknown> {
+    const filter: Record<string, unknown> = {};
+    if (query.requestStatus?.length) {
+      filter.requestStatus = { $in: query.requestStatus };
+    }
+    if (query.printer) {
+      filter.printer = query.printer.trim();
+    }
+    if (query.employeeId) {
+      filter.employeeId = query.employeeId.trim();
+    }
+    if (query.department) {
+      filter.department = query.department.trim();
+    }
+    if (query.fileType) {
+      filter.fileType = query.fileType.trim();
+    }
+    if (query.isColor) {
+      filter.isColor = query.isColor;
+    }
+    if (query.from || query.to) {
+      filter.createdAt = { ...(query.from ? { $gte: query.from } : {}), ...(query.to ? { $lt: query.to } : {}) };
+    }
+    return filter;
+  }
+
+  /**
+   * Keyset pagination on (sortBy, _id): the cursor carries the sort value and id of the last row
+   * returned, so later pages stay stable while new prints keep arriving and never need a skip.
+   */
+  private async findPrints(filter: Record<string, unknown>, query: QueryPrintsDto): Promise<PaginatedPrints> {
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const pageFilter = { ...filter };
+    if (query.cursor) {
+      const { value, id } = this.decodePrintsCursor(query.cursor, query.sortBy);
+      const beyond = direction === 1 ? '$gt' : '$lt';
+      pageFilter.$or = [
+        { [query.sortBy]: { [beyond]: value } },
+        { [query.sortBy]: value, _id: { [beyond]: id } },
+      ];
+    }
+
+    const [prints, total] = await Promise.all([
+      this.printModel
+        .find(pageFilter)
+        .sort({ [query.sortBy]: direction, _id: direction })
+        .limit(query.limit + 1)
+        .exec(),
+      this.printModel.countDocuments(filter).exec(),
+    ]);
+
+    const hasMore = prints.length > query.limit;
+    const items = hasMore ? prints.slice(0, query.limit) : prints;
+    const last = items[items.length - 1];
+    return {
+      items,
+      total,
+      nextCursor: hasMore && last ? this.encodePrintsCursor(last, query.sortBy) : null,
+    };
+  }
+
+  private encodePrintsCursor(print: Print, sortBy: PrintSortField): string {
+    const value: unknown = print[sortBy];
+    return Buffer.from(JSON.stringify([value instanceof Date ? value.toISOString() : value, String(print._id)])).toString('base64url');
+  }
+
+  private decodePrintsCursor(cursor: string, sortBy: PrintSortField): { value: Date | number; id: string } {
+    try {
+      const [rawValue, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as [unknown, unknown];
+      const value = sortBy === 'createdAt' || sortBy === 'updatedAt' ? new Date(String(rawValue)) : Number(rawValue);
+      if (typeof id !== 'string' || !/^[0-9a-fA-F]{24}$/.test(id) || Number.isNaN(value.valueOf())) {
+        throw new Error('Malformed cursor');
+      }
+      return { value, id };
+    } catch {
+      throw new BadRequestException('Invalid cursor; it must come from nextCursor with the same sortBy');
+    }
+  }
+
+  async cancelPrint(id: string, user: JwtPayload): Promise<Print> {
+    const print = await this.getOwnedPrint(id, user);
+    if (TERMINAL_REQUEST_STATUSES.includes(print.requestStatus)) {
+      throw new BadRequestException(`Print ${id} is already ${print.requestStatus} and cannot be canceled`);
+    }
+
+    // Jobs that have not reached CUPS yet are canceled locally; sendToCups re-checks before dispatch and
+    // takes the job back out of CUPS if the cancel lands while Print-Job is running
+    if (print.jobId) {
+      await this.runJobOperation(() => this.cupsService.cancelJob(print.printer, print.jobId as string));
+    } else {
+      await this.printQueue.remove(id);
+    }
+    return this.updatePrintStatus(id, PrintRequestStatus.CANCELED, {
+      source: PrintStatusSource.USER,
+      actor: user.employeeId,
+      errorMessage: `Canceled by ${user.employeeId}`,
+    });
+  }
+
+  async holdPrint(id: string, user: JwtPayload): Promise<Print> {
+    const print = await this.getOwnedPrint(id, user);
+    if (!print.jobId || print.requestStatus !== PrintRequestStatus.SENT_TO_PRINTER) {
+      throw new BadRequestException(`Print ${id} is ${print.requestStatus} and cannot be held`);
+    }
+
+    await this.runJobOperation(() => this.cupsService.holdJob(print.printer, print.jobId as string));
+    return this.updatePrintStatus(id, PrintRequestStatus.HELD, { source: PrintStatusSource.USER, actor: user.employeeId });
+  }
+
+  async releasePrint(id: string, user: JwtPayload): Promise<Print> {
+    const print = await this.getOwnedPrint(id, user);
+    if (print.requestStatus === PrintRequestStatus.HELD && !print.jobId) {
+      return this.dispatchHeldPrint(print, user);
+    }
+    if (!print.jobId || print.requestStatus !== PrintRequestStatus.HELD) {
+      throw new BadRequestException(`Print ${id} is ${print.requestStatus} and cannot be released`);
+    }
+
+    await this.runJobOperation(() => this.cupsService.releaseJob(print.printer, print.jobId as string));
+    return this.updatePrintStatus(id, PrintRequestStatus.SENT_TO_PRINTER, { source: PrintStatusSource.USER, actor: user.employeeId });
+  }
+
+  /**
+   * Submits the stored file of an earlier print again as a new print linked through parentPrintId.
+   * The stored file is already in its final form (converted to PDF, booklet pages reordered), so only
+   * copies, printer, sides and color can change; the page selection and layout are kept.
+   */
+  async reprintPrint(id: string, reprintPrintDto: ReprintPrintDto, user: JwtPayload): Promise<Print> {
+    const original = await this.getOwnedPrint(id, user);
+    const originalFileKey = getStoredFileKey(original);
+    if (!originalFileKey || original.fileDeletedAt) {
+      throw new GoneException(`The stored file of print ${id} has been removed; please upload it again`);
+    }
+    if ((await this.storage.size(originalFileKey)) === null) {
+      throw new GoneException(`The stored file of print ${id} is no longer available; please upload it again`);
+    }
+
+    const staff = await this.staffsService.getStaffByEmployeeId(original.employeeId);
+    if (!staff) {
+      throw new BadRequestException(`Staff with employee ID ${original.employeeId} not found`);
+    }
+    if (staff.isActive === false) {
+      throw new ForbiddenException(`Staff with employee ID ${original.employeeId} is disabled`);
+    }
+
+    const printer = reprintPrintDto.printer ?? original.printer;
+    const copies = reprintPrintDto.copies ?? original.copies;
+    const sides = reprintPrintDto.sides ?? original.sides;
+    const isColor = reprintPrintDto.isColor ?? original.isColor === ColorMode.COLOR;
+    const holdForRelease = reprintPrintDto.holdForRelease ?? false;
+    await this.printersService.assertPrinterAccepts(printer, staff.department, {
+      isColor,
+      sides,
+      paperSize: original.paperSize as PaperSize,
+      pageLayout: original.pageLayout,
+    });
+
+    // Older prints predate estimatedPages; fall back to the document's page count
+    const pagesPerCopy = original.estimatedPages > 0 ? Math.round(original.estimatedPages / original.copies) : original.pages;
+    const estimatedPages = pagesPerCopy * copies;
+    const reservation = await this.quotasService.reserveQuota(staff, estimatedPages);
+    let savedPrint: PrintDocument;
+    try {
+      const quota = reservation.status;
+      const costEstimate = await this.pricingService.estimateCost(
+        { pagesPerCopy, copies, sides, pageLayout: original.pageLayout },
+        { isColor, paperSize: original.paperSize },
+      );
+      const approval = await this.getApproval({ isColor, paperSize: original.paperSize, estimatedPages, department: staff.department }, holdForRelease);
+      const initialStatus = holdForRelease && !approval ? PrintRequestStatus.HELD : PrintRequestStatus.PENDING;
+
+      const print = new this.printModel({
+        employeeId: original.employeeId,
+        employeeName: original.employeeName,
+        department: staff.department,
+        fileName: original.fileName,
+        fileType: original.fileType,
+        printer,
+        paperSize: original.paperSize,
+        copies,
+        isColor: isColor ? ColorMode.COLOR : ColorMode.GRAYSCALE,
+        sides,
+        orientation: original.orientation,
+        pageLayout: original.pageLayout,
+        margins: original.margins,
+        pagesToPrint: original.pagesToPrint,
+        requestStatus: initialStatus,
+        pagesPrinted: 0,
+        pages: original.pages,
+        estimatedPages,
+        sheets: costEstimate.sheets,
+        impressions: costEstimate.impressions,
+        estimatedCost: costEstimate.cost,
+        currency: costEstimate.currency,
+        quotaRemaining: quota.remaining === null ? undefined : quota.remaining - estimatedPages,
+        parentPrintId: original._id.toString(),
+        approval,
+        statusHistory: [this.initialStatusChange(initialStatus, user)],
+        createdBy: user.employeeId,
+        updatedBy: user.employeeId,
+      });
+      if (holdForRelease) {
+        print.releasePin = await this.generateReleasePin(printer);
+        print.releaseExpiresAt = approval ? undefined : this.getReleaseExpiry();
+      }
+
+      // Each print owns its copy of the file so retention and cleanup never pull it from under another print
+      const date = new Date().toISOString().split('T')[0];
+      print.fileKey = path.posix.join(original.employeeId, date, `${print._id.toString()}${path.posix.extname(originalFileKey)}`);
+      await this.storage.copy(originalFileKey, print.fileKey);
+      const saved = await print.save().catch(async (error: unknown) => {
+        await this.storage.delete(print.fileKey as string).catch(() => false);
+        throw new InternalServerErrorException(`Failed to create reprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+      this.logger.log(`Print ${saved._id.toString()} created by ${user.employeeId} as a reprint of ${original._id.toString()}`);
+      this.printsGateway.emitPrintUpdate(saved.toObject());
+      savedPrint = saved;
+    } finally {
+      await reservation.release();
+    }
+
+    return this.submitPrint(savedPrint, user);
+  }
+
+  /**
+   * Moves a newly saved print on: to an approver when it matched an approval rule, otherwise into
+   * the dispatch queue. Held prints wait for the employee to release them at the printer or from the web admin.
+   */
+  private async submitPrint(print: PrintDocument, user: JwtPayload): Promise<Print> {
+    const printId = print._id.toString();
+    if (print.approval) {
+      this.logger.log(`Print ${printId} needs approval: ${print.approval.reasons.join('; ')}`);
+      const awaitingPrint = await this.updatePrintStatus(printId, PrintRequestStatus.AWAITING_APPROVAL, {
+        source: PrintStatusSource.SYSTEM,
+        note: print.approval.reasons.join('; '),
+      });
+      // releasePin is not selected on reads; this response is the requester's only copy besides the approval event
+      awaitingPrint.releasePin = print.releasePin;
+      return awaitingPrint;
+    }
+    if (print.requestStatus === PrintRequestStatus.HELD) {
+      this.logger.log(`Print ${printId} held for release until ${print.releaseExpiresAt?.toISOString()}`);
+      return print;
+    }
+    return this.queuePrint(printId, print.printer, PrintStatusSource.USER, user.employeeId);
+  }
+
+  private async getApproval(candidate: ApprovalCandidate, holdForRelease: boolean): Promise<PrintApproval | undefined> {
+    const reasons = await this.approvalsService.getApprovalReasons(candidate);
+    if (reasons.length === 0) {
+      return undefined;
+    }
+    return {
+      reasons,
+      expiresAt: new Date(Date.now() + this.configService.approvalExpiryHours * 60 * 60 * 1000),
+      holdForRelease,
+    };
+  }
+
+  private getReleaseExpiry(): Date {
+    return new Date(Date.now() + this.configService.heldPrintExpiryHours * 60 * 60 * 1000);
+  }
+
+  // Approvers see their own department's prints; admins see every department unless they filter on one
+  async getPrintsAwaitingApproval(query: QueryPrintsDto, user: JwtPayload): Promise<PaginatedPrints> {
+    let department = query.department;
+    if (!hasRole(user, StaffRole.ADMIN)) {
+      department = await this.getApproverDepartment(user);
+    }
+    return this.findPrints(this.buildPrintsFilter({ ...query, department, requestStatus: [PrintRequestStatus.AWAITING_APPROVAL] }), query);
+  }
+
+  async approvePrint(id: string, decisionDto: ApprovalDecisionDto, user: JwtPayload): Promise<Print> {
+    const print = await this.recordApprovalDecision(id, ApprovalDecision.APPROVED, decisionDto, user);
+    let approvedPrint: Print;
+    let releasePin: string | undefined;
+    if (print.approval?.holdForRelease) {
+      const heldPrint = await this.printModel
+        .findOneAndUpdate({ _id: print._id }, { $set: { releaseExpiresAt: this.getReleaseExpiry() } })
+        .select('+releasePin')
+        .exec();
+      releasePin = heldPrint?.releasePin;
+      approvedPrint = await this.updatePrintStatus(id, PrintRequestStatus.HELD, { source: PrintStatusSource.USER, actor: user.employeeId, note: decisionDto.comment });
+    } else {
+      approvedPrint = await this.queuePrint(id, print.printer, PrintStatusSource.USER, user.employeeId, decisionDto.comment);
+    }
+    // The PIN goes to the requester only; the approver's response never includes it
+    this.printsGateway.emitApprovalDecision(approvedPrint, releasePin);
+    return approvedPrint;
+  }
+
+  async rejectPrint(id: string, decisionDto: ApprovalDecisionDto, user: JwtPayload): Promise<Print> {
+    const print = await this.recordApprovalDecision(id, ApprovalDecision.REJECTED, decisionDto, user);
+    await this.printModel.updateOne({ _id: print._id }, { $unset: { releasePin: 1 } }).exec();
+    const rejectedPrint = await this.updatePrintStatus(id, PrintRequestStatus.REJECTED, {
+      source: PrintStatusSource.USER,
+      actor: user.employeeId,
+      errorMessage: `Rejected by ${user.employeeId}${decisionDto.comment ? `: ${decisionDto.comment}` : ''}`,
+    });
+    this.printsGateway.emitApprovalDecision(rejectedPrint);
+    return rejectedPrint;
+  }
+
+  // Checks the approver may decide on the print and records the decision exactly once
+  private async recordApprovalDecision(id: string, decision: ApprovalDecision, decisionDto: ApprovalDecisionDto, user: JwtPayload): Promise<PrintDocument> {
+    const print = await this.getExistingPrint(id);
+    if (print.requestStatus !== PrintRequestStatus.AWAITING_APPROVAL || !print.approval) {
+      throw new BadRequestException(`Print ${id} is ${print.requestStatus} and is not awaiting approval`);
+    }
+    if (!hasRole(user, StaffRole.ADMIN)) {
+      if (print.employeeId === user.employeeId) {
+        throw new ForbiddenException('You cannot decide on your own print jobs');
+      }
+      const department = await this.getApproverDepartment(user);
+      if (print.department?.toLowerCase() !== department.toLowerCase()) {
+        throw new ForbiddenException('You can only decide on print jobs from your own department');
+      }
+    }
+    if (print.approval.expiresAt <= new Date()) {
+      throw new BadRequestException(`The approval request for print ${id} has expired`);
+    }
+
+    const decidedPrint = await this.printModel
+      .findOneAndUpdate(
+        { _id: print._id, requestStatus: PrintRequestStatus.AWAITING_APPROVAL, 'approval.decision': { $exists: false } },
+        {
+          $set: {
+            'approval.decision': decision,
+            'approval.decidedBy': user.employeeId,
+            'approval.decidedAt': new Date(),
+            'approval.comment': decisionDto.comment,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!decidedPrint) {
+      throw new BadRequestException(`Print ${id} has already been decided on`);
+    }
+    this.logger.log(`Print ${id} ${decision} by ${user.employeeId}`);
+    return decidedPrint;
+  }
+
+  private async getApproverDepartment(user: JwtPayload): Promise<string> {
+    const staff = await this.staffsService.getStaffByEmployeeId(user.employeeId);
+    if (!staff?.department) {
+      throw new ForbiddenException('Approvers need a department to review print jobs');
+    }
+    return staff.department;
+  }
+
+  async expireUnapprovedPrints(): Promise<void> {
+    try {
+      const expiredPrints = await this.printModel
+        .find({ requestStatus: PrintRequestStatus.AWAITING_APPROVAL, 'approval.decision': { $exists: false }, 'approval.expiresAt': { $lte: new Date() } })
+        .exec();
+
+      for (const print of expiredPrints) {
+        const decided = await this.printModel
+          .updateOne(
+            { _id: print._id, 'approval.decision': { $exists: false } },
+            { $set: { 'approval.decision': ApprovalDecision.EXPIRED, 'approval.decidedAt': new Date() }, $unset: { releasePin: 1 } },
+          )
+          .exec();
+        if (decided.modifiedCount === 0) {
+          continue; // An approver got there first
+        }
+        const expiredPrint = await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.EXPIRED, {
+          source: PrintStatusSource.SYSTEM,
+          errorMessage: 'Not approved before the approval request expired',
+        });
+        this.printsGateway.emitApprovalDecision(expiredPrint);
+      }
+
+      if (expiredPrints.length > 0) {
+        this.logger.log(`Expired ${expiredPrints.length} unapproved print(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to expire unapproved prints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Admins can send a print that failed (e.g. after the queue gave up on it) through the queue again
+  async retryPrint(id: string, user: JwtPayload): Promise<Print> {
+    const print = await this.getExistingPrint(id);
+    if (print.requestStatus !== PrintRequestStatus.FAILED) {
+      throw new BadRequestException(`Print ${id} is ${print.requestStatus}; only failed prints can be retried`);
+    }
+    if (!getStoredFileKey(print) || print.fileDeletedAt) {
+      throw new GoneException(`The stored file of print ${id} has been removed; it has to be submitted again`);
+    }
+
+    // The earlier attempt's job stays in statusHistory; the fields only describe the new one
+    const cleared = await this.printModel
+      .updateOne({ _id: print._id, requestStatus: PrintRequestStatus.FAILED }, { $unset: { jobId: 1, jobStartTime: 1, jobEndTime: 1 } })
+      .exec();
+    if (cleared.matchedCount === 0) {
+      throw new BadRequestException(`Print ${id} has already been retried`);
+    }
+    return this.queuePrint(id, print.printer, PrintStatusSource.USER, user.employeeId);
+  }
+
+  private async dispatchPrint(printId: string): Promise<void> {
+    const print = await this.printModel.findById(printId).exec();
+    // Canceled, expired or already dispatched in the meantime: nothing left to do
+    if (!print || print.requestStatus !== PrintRequestStatus.QUEUED || print.jobId) {
+      return;
+    }
+    await this.sendToCups(print);
+  }
+
+  private async handleDispatchFailure(failure: DispatchFailure): Promise<void> {
+    if (!failure.nextAttemptAt) {
+      await this.updatePrintStatus(failure.printId, PrintRequestStatus.FAILED, { source: PrintStatusSource.SYSTEM, errorMessage: failure.error })
+        .catch((error: unknown) => {
+          this.logger.error(`Failed to mark print ${failure.printId} as failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+      return;
+    }
+    // Still queued; let the submitter see why it is taking longer
+    const print = await this.printModel
+      .findOneAndUpdate(
+        { _id: failure.printId, requestStatus: PrintRequestStatus.QUEUED },
+        { $set: { errorMessage: `Attempt ${failure.attempts} failed: ${failure.error}. Retrying at ${failure.nextAttemptAt.toISOString()}` } },
+        { new: true },
+      )
+      .exec()
+      .catch(() => null);
+    if (print) {
+      this.printsGateway.emitPrintUpdate(print.toObject());
+    }
+  }
+
+  /**
+   * Queued prints that have no queue entry, e.g. submitted before the queue existed, and pending
+   * prints that never made it into the queue because the process stopped right after saving them.
+   */
+  private async requeueOrphanedPrints(): Promise<void> {
+    try {
+      const prints = await this.printModel
+        .find({ requestStatus: { $in: [PrintRequestStatus.PENDING, PrintRequestStatus.QUEUED] }, jobId: { $exists: false }, fileDeletedAt: { $exists: false } })
+        .select('printer requestStatus')
+        .exec();
+      for (const print of prints) {
+        if (print.requestStatus === PrintRequestStatus.PENDING) {
+          await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.QUEUED, { source: PrintStatusSource.SYSTEM });
+        }
+        await this.printQueue.ensureQueued(print._id.toString(), print.printer);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to requeue pending prints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async releasePrintByPin(releasePrintDto: ReleasePrintDto, user: JwtPayload): Promise<Print> {
+    const print = await this.printModel
+      .findOne({
+        printer: releasePrintDto.printer,
+        releasePin: releasePrintDto.pin,
+        requestStatus: PrintRequestStatus.HELD,
+        jobId: { $exists: false },
+        releaseExpiresAt: { $gt: new Date() },
+      })
+      .exec();
+    if (!print) {
+      throw new NotFoundException(`No held print on ${releasePrintDto.printer} matches this PIN`);
+    }
+    return this.dispatchHeldPrint(print, user);
+  }
+
+  /**
+   * Moves a print that was submitted for pull printing out of the held queue and sends it to CUPS.
+   * The conditional update makes a concurrent PIN and web release dispatch the job only once.
+   */
+  private async dispatchHeldPrint(print: PrintDocument, user: JwtPayload): Promise<Print> {
+    const releasedPrint = await this.printModel
+      .findOneAndUpdate(
+        { _id: print._id, requestStatus: PrintRequestStatus.HELD, jobId: { $exists: false }, releasePin: { $exists: true } },
+        { $unset: { releasePin: 1, releaseExpiresAt: 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!releasedPrint) {
+      throw new BadRequestException(`Print ${print._id.toString()} has already been released`);
+    }
+
+    this.logger.log(`Print ${releasedPrint._id.toString()} released by ${user.employeeId}`);
+    return this.queuePrint(releasedPrint._id.toString(), releasedPrint.printer, PrintStatusSource.USER, user.employeeId);
+  }
+
+  async expireHeldPrints(): Promise<void> {
+    try {
+      const expiredPrints = await this.printModel
+        .find({
+          requestStatus: PrintRequestStatus.HELD,
+          jobId: { $exists: false },
+          releaseExpiresAt: { $lte: new Date() },
+        })
+        .exec();
+
+      for (const print of expiredPrints) {
+        const fileKey = getStoredFileKey(print);
+        if (fileKey) {
+          await this.storage.delete(fileKey).catch(err => this.logger.error(`Failed to delete expired file ${fileKey}: ${err}`));
+        }
+        await this.printModel.updateOne({ _id: print._id }, { $unset: { releasePin: 1 }, ...(fileKey ? { $set: { fileDeletedAt: new Date() } } : {}) }).exec();
+        await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.EXPIRED, {
+          source: PrintStatusSource.SYSTEM,
+          errorMessage: 'Not released before the hold expired',
+        });
+      }
+
+      if (expiredPrints.length > 0) {
+        this.logger.log(`Expired ${expiredPrints.length} unreleased held print(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to expire held prints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async generateReleasePin(printer: string): Promise<string> {
+    // PINs only need to be unique among the prints currently waiting (or waiting for approval) on the same printer
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const pin = randomInt(0, 10 ** RELEASE_PIN_LENGTH).toString().padStart(RELEASE_PIN_LENGTH, '0');
+      const inUse = await this.printModel
+        .exists({ printer, releasePin: pin, requestStatus: { $in: [PrintRequestStatus.HELD, PrintRequestStatus.AWAITING_APPROVAL] } })
+        .exec();
+      if (!inUse) {
+        return pin;
+      }
+    }
+    throw new InternalServerErrorException('Could not generate a unique release PIN, please try again');
+  }
+
+  private getFileKey(print: PrintDocument): string {
+    const fileKey = getStoredFileKey(print);
+    if (!fileKey) {
+      throw new Error(`Print ${print._id} has no stored file`);
+    }
+    return fileKey;
+  }
+
+  private async getExistingPrint(id: string): Promise<PrintDocument> {
+    const print = await this.getPrintById(id);
+    if (!print) {
+      throw new NotFoundException(`Print ${id} not found`);
+    }
+    return print as PrintDocument;
+  }
+
+  // Owners manage their own prints, approvers the prints of the department they approve for and admins any print
+  private async getOwnedPrint(id: string, user: JwtPayload): Promise<PrintDocument> {
+    const print = await this.getExistingPrint(id);
+    if (print.employeeId === user.employeeId || hasRole(user, StaffRole.ADMIN)) {
+      return print;
+    }
+    if (hasRole(user, StaffRole.APPROVER)) {
+      const department = await this.getApproverDepartment(user);
+      if (print.department?.toLowerCase() === department.toLowerCase()) {
+        return print;
+      }
+    }
+    throw new ForbiddenException('You can only manage your own print jobs');
+  }
+
+  private async runJobOperation(operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`CUPS job operation failed: ${errorMessage}`);
+      throw new InternalServerErrorException(`CUPS rejected the request: ${errorMessage}`);
+    }
   }
 
   private async getJobPageCountFromLpstat(jobId: string, printerName: string): Promise<number> {
@@ -659,18 +1528,19 @@ export class PrintsService implements OnModuleInit {
     print: PrintDocument,
     jobId: string,
     res: IPPResponse,
-    checkStatus: () => void,
-  ): Promise<void> {
+  ): Promise<PrintRequestStatus> {
     this.logger.log(`Job status ${JSON.stringify(res)}`);
     if (!res || !res['job-attributes-tag']) {
       const errorMessage = 'Invalid response: no job attributes';
       this.logger.error(errorMessage);
-      await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.FAILED, undefined, null, errorMessage);
-      return;
+      await this.updatePrintStatus(print._id.toString(), PrintRequestStatus.FAILED, { source: PrintStatusSource.POLLER, errorMessage });
+      return PrintRequestStatus.FAILED;
     }
     const jobState = res['job-attributes-tag']['job-state'];
+    const jobStateReasons = res['job-attributes-tag']['job-state-reasons'];
     const pagesCompleted = res['job-attributes-tag']['pages-completed'] || 0;
     const sheetsCompleted = res['job-attributes-tag']['job-media-sheets-completed'] || 0;
+    const impressionsCompleted = res['job-attributes-tag']['job-impressions-completed'] || 0;
 
     if (!res['job-attributes-tag']['pages-completed']) {
       this.logger.warn(`pages-completed missing in IPP response for job ${jobId}, defaulting to 0`);
@@ -682,35 +1552,42 @@ export class PrintsService implements OnModuleInit {
     let status: PrintRequestStatus;
     switch (jobState) {
       case 'pending':
+        status = PrintRequestStatus.SENT_TO_PRINTER;
+        break;
       case 'pending-held':
-        status = PrintRequestStatus.PENDING;
+        status = PrintRequestStatus.HELD;
         break;
+      // processing-stopped is temporary (paper out, cover open); the job resumes once it clears
       case 'processing':
-        status = PrintRequestStatus.SENT_TO_PRINTER;
+      case 'processing-stopped':
+        status = PrintRequestStatus.PRINTING;
         break;
       case 'completed':
         status = PrintRequestStatus.COMPLETED;
         break;
-      default:
+      case 'canceled':
+        status = PrintRequestStatus.CANCELED;
+        break;
+      case 'aborted':
         status = PrintRequestStatus.FAILED;
+        break;
+      default:
+        this.logger.warn(`Unknown job-state "${String(jobState)}" for job ${jobId}, leaving print ${print._id.toString()} unchanged`);
+        return print.requestStatus;
     }
 
     let calculatedPagesPrinted = 0;
     if (status === PrintRequestStatus.COMPLETED) {
+      // Counted in document pages like estimatedPages, so a booklet uses the same quota before and after printing
       if (pagesCompleted > 0) {
-        if (print.pageLayout === PageLayout.BOOKLET) {
-          calculatedPagesPrinted = Math.ceil(pagesCompleted / 4) * print.copies;
-          this.logger.log(`Using pages-completed for booklet: ${calculatedPagesPrinted} (pages: ${pagesCompleted}, sheets: ${Math.ceil(pagesCompleted / 4)}, copies: ${print.copies})`);
-        } else {
-          calculatedPagesPrinted = pagesCompleted * print.copies;
-          this.logger.log(`Using pages-completed from IPP: ${calculatedPagesPrinted} (pages: ${pagesCompleted}, copies: ${print.copies})`);
-        }
+        calculatedPagesPrinted = pagesCompleted * print.copies;
+        this.logger.log(`Using pages-completed from IPP: ${calculatedPagesPrinted} (pages: ${pagesCompleted}, copies: ${print.copies})`);
       } else {
         const sheetsFromLpstat = await this.getJobPageCountFromLpstat(jobId, print.printer);
         if (sheetsFromLpstat > 0) {
           let pagesPerSheet = 1;
           if (print.pageLayout === PageLayout.BOOKLET) {
-            pagesPerSheet = 1;
+            pagesPerSheet = 4;
           } else if (print.sides === Sides.DOUBLE) {
             pagesPerSheet = 2;
           }
@@ -719,64 +1596,120 @@ export class PrintsService implements OnModuleInit {
         } else if (sheetsCompleted > 0) {
           let pagesPerSheet = 1;
           if (print.pageLayout === PageLayout.BOOKLET) {
-            pagesPerSheet = 1;
+            pagesPerSheet = 4;
           } else if (print.sides === Sides.DOUBLE) {
             pagesPerSheet = 2;
           }
           calculatedPagesPrinted = sheetsCompleted * pagesPerSheet * print.copies;
           this.logger.log(`Calculated pagesPrinted from IPP sheets: ${calculatedPagesPrinted} (sheets: ${sheetsCompleted}, pagesPerSheet: ${pagesPerSheet}, copies: ${print.copies})`);
+        } else if (impressionsCompleted > 0) {
+          calculatedPagesPrinted = impressionsCompleted * print.copies;
+          this.logger.log(`Using job-impressions-completed: ${calculatedPagesPrinted} (impressions: ${impressionsCompleted}, copies: ${print.copies})`);
         } else {
-          const impressionsCompleted = res['job-attributes-tag']['job-impressions-completed'] || 0;
-          if (impressionsCompleted > 0) {
-            calculatedPagesPrinted = impressionsCompleted * print.copies;
-            this.logger.log(`Using job-impressions-completed: ${calculatedPagesPrinted} (impressions: ${impressionsCompleted}, copies: ${print.copies})`);
-          } else {
-            this.logger.warn(`No reliable page count available for job ${jobId}, defaulting to 0`);
-          }
+          this.logger.warn(`No reliable page count available for job ${jobId}, defaulting to 0`);
         }
       }
     }
 
-    await this.updatePrintStatus(
-      print._id.toString(),
-      status,
+    if (status === PrintRequestStatus.COMPLETED) {
+      await this.recordActualCost(print, sheetsCompleted, impressionsCompleted);
+    }
+
+    await this.updatePrintStatus(print._id.toString(), status, {
+      source: PrintStatusSource.POLLER,
       jobId,
-      status === PrintRequestStatus.COMPLETED || status === PrintRequestStatus.FAILED ? new Date() : null,
-      status === PrintRequestStatus.FAILED ? `Job ${jobState}` : undefined,
-      status === PrintRequestStatus.COMPLETED ? calculatedPagesPrinted : undefined,
-    );
+      errorMessage: status === PrintRequestStatus.FAILED ? `Job ${jobState}` : undefined,
+      pagesPrinted: status === PrintRequestStatus.COMPLETED ? calculatedPagesPrinted : undefined,
+      jobStateReasons: typeof jobStateReasons === 'string' ? [jobStateReasons] : jobStateReasons,
+    });
 
-    if (status !== PrintRequestStatus.FAILED && status !== PrintRequestStatus.COMPLETED) {
-      setTimeout(checkStatus, 1000);
+    return status;
+  }
+
+  /**
+   * Prices a completed job from the printer's own counters, falling back to the submission-time
+   * figures. Like the pagesPrinted calculation, the IPP counters are taken to be per copy.
+   */
+  private async recordActualCost(print: PrintDocument, sheetsCompleted: number, impressionsCompleted: number): Promise<void> {
+    try {
+      const actual = await this.pricingService.calculateCost(
+        {
+          sheets: sheetsCompleted > 0 ? sheetsCompleted * print.copies : print.sheets,
+          impressions: impressionsCompleted > 0 ? impressionsCompleted * print.copies : print.impressions,
+        },
+        { isColor: print.isColor === ColorMode.COLOR, paperSize: print.paperSize, sides: print.sides },
+      );
+      await this.printModel
+        .updateOne(
+          { _id: print._id },
+          { $set: { sheets: actual.sheets, impressions: actual.impressions, actualCost: actual.cost, currency: actual.currency } },
+        )
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to price print ${print._id.toString()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Job state changes arrive through the printer's CUPS event subscription; the immediate check
+   * covers jobs that finish before the subscription picks them up.
+   */
   monitorPrintJob(print: PrintDocument, jobId: string): void {
-    const options: CustomPrinterOptions = {
-      username: this.adminUsername,
-      password: this.adminPassword,
-    };
-    const printer = new ipp.Printer(`ipp://${CUPS_SERVER_IP}:631/printers/${print.printer}`, options) as IPPPrinter;
-    const checkStatus = () => {
-      const params: Params = {
-        'operation-attributes-tag': {
-          'job-id': Number(jobId),
-          'requested-attributes': ['job-id', 'job-state', 'pages-completed', 'job-media-sheets-completed', 'job-impressions-completed'],
-        },
-      };
-      if (this.adminPassword) {
-        params['operation-attributes-tag']['requesting-user-name'] = this.adminUsername;
-      }
-      printer.execute('Get-Job-Attributes', params, (err: Error | null, res: IPPResponse) => {
-        if (err) {
-          const errorMessage = `Job status error: ${err.message}`;
-          this.logger.error(errorMessage);
-          void this.updatePrintStatus(print._id.toString(), PrintRequestStatus.FAILED, undefined, null, errorMessage);
-          return;
-        }
-        void this.processJobStatus(print, jobId, res, checkStatus);
-      });
+    this.cupsEventsService.watchPrinter(print.printer);
+    void this.refreshJobStatus(print, jobId);
+  }
+
+  private async handleJobEvent(event: CupsJobEvent): Promise<void> {
+    try {
+      const print = await this.printModel
+        .findOne({ printer: event.printer, jobId: event.jobId, requestStatus: { $in: ACTIVE_JOB_STATUSES } })
+        .exec();
+      if (!print) {
+        return;
+      }
+      this.logger.log(`CUPS reported ${event.event ?? 'a change'} for job ${event.jobId} on ${event.printer}`);
+      await this.refreshJobStatus(print, event.jobId);
+    } catch (error) {
+      this.logger.error(`Failed to handle CUPS event for job ${event.jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async refreshJobStatus(print: PrintDocument, jobId: string): Promise<void> {
+    const params: IPPParams = {
+      'operation-attributes-tag': {
+        'job-id': Number(jobId),
+        'requested-attributes': ['job-id', 'job-state', 'job-state-reasons', 'pages-completed', 'job-media-sheets-completed', 'job-impressions-completed'],
+      },
     };
-    checkStatus();
+    try {
+      const res = await this.cupsService.execute(print.printer, 'Get-Job-Attributes', params);
+      await this.processJobStatus(print, jobId, res);
+    } catch (error) {
+      // Left active on purpose: the next event or reconcile pass retries the lookup
+      this.logger.error(`Job status error for job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
-}
\ No newline at end of file
+
+  /**
+   * Makes sure the printer of every print that CUPS may still be working on is watched, and
+   * re-reads each job once so events missed during a restart or a dropped subscription are caught up.
+   */
+  async reconcileJobMonitors(): Promise<void> {
+    try {
+      const activePrints = await this.printModel
+        .find({ requestStatus: { $in: ACTIVE_JOB_STATUSES }, jobId: { $exists: true, $ne: null } })
+        .exec();
+
+      for (const print of activePrints) {
+        this.cupsEventsService.watchPrinter(print.printer);
+        await this.refreshJobStatus(print, print.jobId as string);
+      }
+
+      if (activePrints.length > 0) {
+        this.logger.log(`Reconciled ${activePrints.length} active print job(s) with CUPS`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to reconcile print jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,4 @@
+// A submission holds the employee's quota lock from the quota check until its print is saved
+export const QUOTA_LOCK_TTL_MS = 60 * 1000; // Lapses on its own if the process dies while holding it
+export const QUOTA_LOCK_RETRY_MS = 200;
+export const QUOTA_LOCK_ATTEMPTS = 50;
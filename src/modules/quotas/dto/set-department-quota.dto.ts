@@ -0,0 +1,9 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SetDepartmentQuotaDto {
+  @Type(() => Number)
+  @IsInt({ message: 'monthlyPageQuota must be an integer' })
+  @Min(0, { message: 'monthlyPageQuota must be at least 0' })
+  monthlyPageQuota: number;
+}
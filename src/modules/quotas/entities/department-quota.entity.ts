@@ -0,0 +1,13 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({ collection: 'department_quotas', timestamps: true })
+export class DepartmentQuota extends Document {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  department: string; // Matches Staff.department case-insensitively
+
+  @Prop({ required: true, min: 0 })
+  monthlyPageQuota: number;
+}
+
+export const DepartmentQuotaSchema = SchemaFactory.createForClass(DepartmentQuota);
@@ -0,0 +1,14 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+// Held by one submission per employee between its quota check and saving the print
+@Schema({ collection: 'quota_locks' })
+export class QuotaLock extends Document {
+  @Prop({ required: true, unique: true })
+  employeeId: string;
+
+  @Prop({ required: true })
+  lockedUntil: Date;
+}
+
+export const QuotaLockSchema = SchemaFactory.createForClass(QuotaLock);
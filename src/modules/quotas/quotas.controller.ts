@@ -0,0 +1,49 @@
+import { Body, Controller, Delete, ForbiddenException, Get, Param, Patch, UseGuards, ValidationPipe } from '@nestjs/common';
+import { QuotasService, QuotaStatus } from './quotas.service';
+import { DepartmentQuota } from './entities/department-quota.entity';
+import { SetDepartmentQuotaDto } from './dto/set-department-quota.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { hasRole, RolesGuard } from 'src/auth/roles.guard';
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { JwtPayload } from 'src/common/jwt-payload.interface';
+import { Roles } from 'src/auth/roles.decorator';
+import { StaffRole } from '../staffs/constants';
+
+@Controller('quotas')
+export class QuotasController {
+  constructor(private readonly quotasService: QuotasService) { }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER, StaffRole.STAFF)
+  @Get('employees/:employeeId')
+  async findForEmployee(@Param('employeeId') employeeId: string, @CurrentUser() user: JwtPayload): Promise<QuotaStatus> {
+    if (employeeId !== user.employeeId && !hasRole(user, StaffRole.ADMIN, StaffRole.APPROVER)) {
+      throw new ForbiddenException('You can only view your own quota');
+    }
+    return await this.quotasService.getQuotaStatusByEmployeeId(employeeId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
+  @Get('departments')
+  async findDepartmentQuotas(): Promise<DepartmentQuota[]> {
+    return await this.quotasService.getDepartmentQuotas();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Patch('departments/:department')
+  async setDepartmentQuota(
+    @Param('department') department: string,
+    @Body(new ValidationPipe({ transform: true })) setDepartmentQuotaDto: SetDepartmentQuotaDto,
+  ): Promise<DepartmentQuota> {
+    return await this.quotasService.setDepartmentQuota(department, setDepartmentQuotaDto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Delete('departments/:department')
+  async removeDepartmentQuota(@Param('department') department: string): Promise<DepartmentQuota> {
+    return await this.quotasService.deleteDepartmentQuota(department);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { QuotasService } from './quotas.service';
+import { QuotasController } from './quotas.controller';
+import { DepartmentQuota, DepartmentQuotaSchema } from './entities/department-quota.entity';
+import { QuotaLock, QuotaLockSchema } from './entities/quota-lock.entity';
+import { Print, PrintSchema } from '../prints/entities/print.entity';
+import { StaffsModule } from '../staffs/staffs.module';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DepartmentQuota.name, schema: DepartmentQuotaSchema },
+      { name: QuotaLock.name, schema: QuotaLockSchema },
+      { name: Print.name, schema: PrintSchema },
+    ]),
+    StaffsModule,
+    AuthModule,
+  ],
+  controllers: [QuotasController],
+  providers: [QuotasService],
+  exports: [QuotasService],
+})
+export class QuotasModule {}
@@ -0,0 +1,121 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { Model, mongo } from 'mongoose';
+import { QuotasService } from './quotas.service';
+import { DepartmentQuota } from './entities/department-quota.entity';
+import { QuotaLock } from './entities/quota-lock.entity';
+import { Print } from '../prints/entities/print.entity';
+import { Staff } from '../staffs/entities/staff.entity';
+import { StaffsService } from '../staffs/staffs.service';
+
+jest.mock('./constants', () => ({
+  ...jest.requireActual<typeof import('./constants')>('./constants'),
+  QUOTA_LOCK_ATTEMPTS: 3,
+  QUOTA_LOCK_RETRY_MS: 1,
+}));
+
+const exec = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+
+describe('QuotasService.reserveQuota', () => {
+  let locks: Map<string, Date>;
+  let pagesUsed: number;
+  let departmentQuota: number | undefined;
+  let quotaLockModel: { updateOne: jest.Mock; deleteOne: jest.Mock };
+  let service: QuotasService;
+
+  const staff = (overrides: Partial<Staff> = {}) =>
+    ({ employeeId: 'E001', department: 'Finance', monthlyPageQuota: 100, ...overrides }) as Staff;
+
+  beforeEach(() => {
+    locks = new Map();
+    pagesUsed = 0;
+    departmentQuota = undefined;
+
+    // Behaves like the unique employeeId index: upserting over a held lock is a duplicate key
+    quotaLockModel = {
+      updateOne: jest.fn((filter: { employeeId: string; lockedUntil: { $lte: Date } }, update: { $set: { lockedUntil: Date } }) => ({
+        exec: () => {
+          const held = locks.get(filter.employeeId);
+          if (held && held > filter.lockedUntil.$lte) {
+            return Promise.reject(new mongo.MongoServerError({ message: 'E11000 duplicate key error', code: 11000 }));
+          }
+          locks.set(filter.employeeId, update.$set.lockedUntil);
+          return Promise.resolve({ acknowledged: true });
+        },
+      })),
+      deleteOne: jest.fn((filter: { employeeId: string; lockedUntil: Date }) => ({
+        exec: () => {
+          if (locks.get(filter.employeeId)?.getTime() === filter.lockedUntil.getTime()) {
+            locks.delete(filter.employeeId);
+          }
+          return Promise.resolve({ deletedCount: 1 });
+        },
+      })),
+    };
+    const departmentQuotaModel = {
+      findOne: jest.fn(() => exec(departmentQuota === undefined ? null : { monthlyPageQuota: departmentQuota })),
+    };
+    const printModel = { aggregate: jest.fn(() => Promise.resolve([{ used: pagesUsed }])) };
+
+    service = new QuotasService(
+      departmentQuotaModel as unknown as Model<DepartmentQuota>,
+      printModel as unknown as Model<Print>,
+      quotaLockModel as unknown as Model<QuotaLock>,
+      {} as StaffsService,
+    );
+  });
+
+  it('holds the lock until the reservation is released', async () => {
+    pagesUsed = 40;
+    const reservation = await service.reserveQuota(staff(), 10);
+
+    expect(reservation.status).toMatchObject({ source: 'employee', limit: 100, used: 40, remaining: 60 });
+    expect(locks.has('E001')).toBe(true);
+
+    await reservation.release();
+    expect(locks.has('E001')).toBe(false);
+  });
+
+  it('releases the lock when the request exceeds the quota', async () => {
+    pagesUsed = 95;
+    await expect(service.reserveQuota(staff(), 10)).rejects.toThrow(ForbiddenException);
+    expect(locks.has('E001')).toBe(false);
+  });
+
+  it('falls back to the department quota, then to no limit', async () => {
+    departmentQuota = 20;
+    await expect(service.reserveQuota(staff({ monthlyPageQuota: undefined }), 25)).rejects.toThrow(ForbiddenException);
+
+    departmentQuota = undefined;
+    const reservation = await service.reserveQuota(staff({ monthlyPageQuota: undefined }), 25);
+    expect(reservation.status).toMatchObject({ source: 'none', limit: null, remaining: null });
+  });
+
+  it('waits for a held lock and gives up with a conflict', async () => {
+    const reservation = await service.reserveQuota(staff(), 10);
+
+    await expect(service.reserveQuota(staff(), 10)).rejects.toThrow(ConflictException);
+    expect(quotaLockModel.updateOne).toHaveBeenCalledTimes(4);
+
+    await reservation.release();
+    await expect(service.reserveQuota(staff(), 10)).resolves.toBeDefined();
+  });
+
+  it('takes over a lock that lapsed', async () => {
+    locks.set('E001', new Date(Date.now() - 1000));
+    await expect(service.reserveQuota(staff(), 10)).resolves.toBeDefined();
+  });
+
+  it('does not release a lock that another submission took over', async () => {
+    const reservation = await service.reserveQuota(staff(), 10);
+    const takenOver = new Date(Date.now() + 5000);
+    locks.set('E001', takenOver);
+
+    await reservation.release();
+    expect(locks.get('E001')).toBe(takenOver);
+  });
+
+  it('rethrows errors other than a held lock', async () => {
+    quotaLockModel.updateOne.mockReturnValueOnce({ exec: () => Promise.reject(new Error('connection lost')) });
+    await expect(service.reserveQuota(staff(), 10)).rejects.toThrow('connection lost');
+  });
+});
@@ -0,0 +1,205 @@
+import { ConflictException, ForbiddenException, Injectable, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import { DepartmentQuota } from './entities/department-quota.entity';
+import { QuotaLock } from './entities/quota-lock.entity';
+import { QUOTA_LOCK_ATTEMPTS, QUOTA_LOCK_RETRY_MS, QUOTA_LOCK_TTL_MS } from './constants';
+import { SetDepartmentQuotaDto } from './dto/set-department-quota.dto';
+import { Print } from '../prints/entities/print.entity';
+import { QUOTA_EXEMPT_STATUSES } from '../prints/constants';
+import { Staff } from '../staffs/entities/staff.entity';
+import { StaffsService } from '../staffs/staffs.service';
+
+export type QuotaSource = 'employee' | 'department' | 'none';
+
+export interface QuotaStatus {
+  employeeId: string;
+  department: string;
+  source: QuotaSource;
+  limit: number | null; // null means unlimited
+  used: number;
+  remaining: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface QuotaReservation {
+  status: QuotaStatus; // As it was before the request
+  release(): Promise<void>;
+}
+
+/**
+ * Quotas are counted in document pages times copies: `estimatedPages` while a print is in flight,
+ * `pagesPrinted` once it completed. Booklets count the pages of the (padded) booklet, not sheets.
+ */
+@Injectable()
+export class QuotasService {
+  constructor(
+    @InjectModel(DepartmentQuota.name) private readonly departmentQuotaModel: Model<DepartmentQuota>,
+    @InjectModel(Print.name) private readonly printModel: Model<Print>,
+    @InjectModel(QuotaLock.name) private readonly quotaLockModel: Model<QuotaLock>,
+    private readonly staffsService: StaffsService,
+  ) { }
+
+  async getQuotaStatusByEmployeeId(employeeId: string): Promise<QuotaStatus> {
+    const staff = await this.staffsService.getStaffByEmployeeId(employeeId);
+    if (!staff) {
+      throw new NotFoundException(`Staff with employee ID ${employeeId} not found`);
+    }
+    return this.getQuotaStatus(staff);
+  }
+
+  async getQuotaStatus(staff: Staff): Promise<QuotaStatus> {
+    const { periodStart, periodEnd } = this.getCurrentPeriod();
+    const { limit, source } = await this.resolveLimit(staff);
+    const used = await this.getPagesUsed(staff.employeeId, periodStart, periodEnd);
+
+    return {
+      employeeId: staff.employeeId,
+      department: staff.department,
+      source,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(limit - used, 0),
+      periodStart,
+      periodEnd,
+    };
+  }
+
+  /**
+   * Throws if printing `requestedPages` (pages * copies) would exceed the staff member's
+   * monthly quota. Returns the quota status as it was before the request.
+   */
+  async assertWithinQuota(staff: Staff, requestedPages: number): Promise<QuotaStatus> {
+    const status = await this.getQuotaStatus(staff);
+    if (status.remaining !== null && requestedPages > status.remaining) {
+      throw new ForbiddenException(
+        `Monthly page quota exceeded: this request needs ${requestedPages} pages but only ${status.remaining} of ${status.limit} remain until ${status.periodEnd.toISOString().split('T')[0]}`,
+      );
+    }
+    return status;
+  }
+
+  /**
+   * Like assertWithinQuota, but holds the employee's quota lock until `release` is called, so two
+   * submissions cannot both pass the check before either print is saved. Release it once the print
+   * has been saved or the submission failed.
+   */
+  async reserveQuota(staff: Staff, requestedPages: number): Promise<QuotaReservation> {
+    const lockedUntil = await this.acquireLock(staff.employeeId);
+    const release = () => this.releaseLock(staff.employeeId, lockedUntil);
+    try {
+      const status = await this.assertWithinQuota(staff, requestedPages);
+      return { status, release };
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  }
+
+  async getDepartmentQuotas(): Promise<DepartmentQuota[]> {
+    return this.departmentQuotaModel.find().sort({ department: 1 }).exec();
+  }
+
+  async setDepartmentQuota(department: string, setDepartmentQuotaDto: SetDepartmentQuotaDto): Promise<DepartmentQuota> {
+    try {
+      const departmentQuota = await this.departmentQuotaModel
+        .findOneAndUpdate(
+          { department: this.normalizeDepartment(department) },
+          { $set: { monthlyPageQuota: setDepartmentQuotaDto.monthlyPageQuota } },
+          { new: true, upsert: true },
+        )
+        .exec();
+      return departmentQuota;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new InternalServerErrorException(`Failed to set department quota: ${errorMessage}`);
+    }
+  }
+
+  async deleteDepartmentQuota(department: string): Promise<DepartmentQuota> {
+    const deletedQuota = await this.departmentQuotaModel
+      .findOneAndDelete({ department: this.normalizeDepartment(department) })
+      .exec();
+    if (!deletedQuota) {
+      throw new NotFoundException(`No quota configured for department ${department}`);
+    }
+    return deletedQuota;
+  }
+
+  private async resolveLimit(staff: Staff): Promise<{ limit: number | null; source: QuotaSource }> {
+    if (typeof staff.monthlyPageQuota === 'number') {
+      return { limit: staff.monthlyPageQuota, source: 'employee' };
+    }
+
+    const departmentQuota = await this.departmentQuotaModel
+      .findOne({ department: this.normalizeDepartment(staff.department) })
+      .exec();
+    if (departmentQuota) {
+      return { limit: departmentQuota.monthlyPageQuota, source: 'department' };
+    }
+
+    return { limit: null, source: 'none' };
+  }
+
+  private async getPagesUsed(employeeId: string, periodStart: Date, periodEnd: Date): Promise<number> {
+    // Completed jobs count what the printer reported; anything still in flight counts its estimate
+    const [result] = await this.printModel.aggregate<{ used: number }>([
+      {
+        $match: {
+          employeeId,
+          createdAt: { $gte: periodStart, $lt: periodEnd },
+          requestStatus: { $nin: QUOTA_EXEMPT_STATUSES },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          used: {
+            $sum: {
+              $cond: [{ $gt: ['$pagesPrinted', 0] }, '$pagesPrinted', { $ifNull: ['$estimatedPages', 0] }],
+            },
+          },
+        },
+      },
+    ]);
+    return result?.used ?? 0;
+  }
+
+  private async acquireLock(employeeId: string): Promise<Date> {
+    for (let attempt = 0; attempt < QUOTA_LOCK_ATTEMPTS; attempt++) {
+      const now = new Date();
+      const lockedUntil = new Date(now.getTime() + QUOTA_LOCK_TTL_MS);
+      try {
+        // Matches only a free (or lapsed) lock; a held one makes the upsert hit the unique index
+        await this.quotaLockModel
+          .updateOne({ employeeId, lockedUntil: { $lte: now } }, { $set: { lockedUntil } }, { upsert: true })
+          .exec();
+        return lockedUntil;
+      } catch (error) {
+        if (!(error instanceof mongo.MongoServerError && error.code === 11000)) {
+          throw error;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, QUOTA_LOCK_RETRY_MS));
+    }
+    throw new ConflictException('Another print for this employee is being submitted, please try again');
+  }
+
+  private async releaseLock(employeeId: string, lockedUntil: Date): Promise<void> {
+    // Leaves the lock alone if it lapsed and another submission has taken it since
+    await this.quotaLockModel.deleteOne({ employeeId, lockedUntil }).exec().catch(() => undefined);
+  }
+
+  private getCurrentPeriod(): { periodStart: Date; periodEnd: Date } {
+    const now = new Date();
+    return {
+      periodStart: new Date(now.getFullYear(), now.getMonth(), 1),
+      periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+    };
+  }
+
+  private normalizeDepartment(department: string): string {
+    return department.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,30 @@
+export enum CostReportGroupBy {
+  DEPARTMENT = 'department',
+  EMPLOYEE = 'employee',
+  PRINTER = 'printer',
+}
+
+export enum ReportFormat {
+  JSON = 'json',
+  CSV = 'csv',
+}
+
+// Print fields each grouping aggregates on
+export const COST_REPORT_GROUP_FIELDS: Record<CostReportGroupBy, string> = {
+  [CostReportGroupBy.DEPARTMENT]: 'department',
+  [CostReportGroupBy.EMPLOYEE]: 'employeeId',
+  [CostReportGroupBy.PRINTER]: 'printer',
+};
+
+export enum UsageInterval {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+// $dateToString formats; weeks are ISO weeks so they line up across year boundaries
+export const USAGE_INTERVAL_FORMATS: Record<UsageInterval, string> = {
+  [UsageInterval.DAY]: '%Y-%m-%d',
+  [UsageInterval.WEEK]: '%G-W%V',
+  [UsageInterval.MONTH]: '%Y-%m',
+};
@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { CostReportGroupBy, ReportFormat } from '../constants';
+import { ReportPeriodDto } from './report-period.dto';
+
+export class CostReportQueryDto extends ReportPeriodDto {
+  @IsOptional()
+  @IsEnum(CostReportGroupBy, { message: 'groupBy must be one of: department, employee, printer' })
+  groupBy: CostReportGroupBy = CostReportGroupBy.DEPARTMENT;
+
+  @IsOptional()
+  @IsEnum(ReportFormat, { message: 'format must be one of: json, csv' })
+  format: ReportFormat = ReportFormat.JSON;
+}
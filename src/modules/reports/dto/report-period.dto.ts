@@ -0,0 +1,15 @@
+import { IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+// Defaults to the current month when from/to are omitted
+export class ReportPeriodDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'from must be a valid date' })
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'to must be a valid date' })
+  to?: Date;
+}
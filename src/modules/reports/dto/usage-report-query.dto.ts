@@ -0,0 +1,17 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { UsageInterval } from '../constants';
+import { ReportPeriodDto } from './report-period.dto';
+
+export class UsageReportQueryDto extends ReportPeriodDto {
+  @IsOptional()
+  @IsEnum(UsageInterval, { message: 'interval must be one of: day, week, month' })
+  interval: UsageInterval = UsageInterval.DAY;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(100)
+  limit: number = 10;
+}
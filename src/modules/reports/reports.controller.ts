@@ -0,0 +1,62 @@
+import { Controller, Get, Query, Res, UseGuards, ValidationPipe } from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import { CostReport, PagesOverTimeRow, PrinterUsageRow, ReportsService, TopUserRow, UsageSummary } from './reports.service';
+import { CostReportQueryDto } from './dto/cost-report-query.dto';
+import { ReportPeriodDto } from './dto/report-period.dto';
+import { UsageReportQueryDto } from './dto/usage-report-query.dto';
+import { ReportFormat } from './constants';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { StaffRole } from '../staffs/constants';
+
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) { }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('costs')
+  async getCostReport(
+    @Query(new ValidationPipe({ transform: true })) query: CostReportQueryDto,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<CostReport | string> {
+    const report = await this.reportsService.getCostReport(query);
+    if (query.format !== ReportFormat.CSV) {
+      return report;
+    }
+
+    const fileName = `costs-by-${report.groupBy}-${report.from.toISOString().split('T')[0]}-${report.to.toISOString().split('T')[0]}.csv`;
+    reply.header('Content-Type', 'text/csv; charset=utf-8');
+    reply.header('Content-Disposition', `attachment; filename="${fileName}"`);
+    return this.reportsService.costReportToCsv(report);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('usage/summary')
+  async getUsageSummary(@Query(new ValidationPipe({ transform: true })) query: ReportPeriodDto): Promise<UsageSummary> {
+    return await this.reportsService.getUsageSummary(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('usage/pages')
+  async getPagesOverTime(@Query(new ValidationPipe({ transform: true })) query: UsageReportQueryDto): Promise<PagesOverTimeRow[]> {
+    return await this.reportsService.getPagesOverTime(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('usage/top-users')
+  async getTopUsers(@Query(new ValidationPipe({ transform: true })) query: UsageReportQueryDto): Promise<TopUserRow[]> {
+    return await this.reportsService.getTopUsers(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('usage/printers')
+  async getPrinterUsage(@Query(new ValidationPipe({ transform: true })) query: ReportPeriodDto): Promise<PrinterUsageRow[]> {
+    return await this.reportsService.getPrinterUsage(query);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReportsService } from './reports.service';
+import { ReportsController } from './reports.controller';
+import { Print, PrintSchema } from '../prints/entities/print.entity';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Print.name, schema: PrintSchema }]),
+    AuthModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+})
+export class ReportsModule {}
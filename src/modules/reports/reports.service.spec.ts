@@ -0,0 +1,159 @@
+import { BadRequestException } from '@nestjs/common';
+import { Model } from 'mongoose';
+import { Print } from '../prints/entities/print.entity';
+import { CostReportGroupBy, ReportFormat, UsageInterval } from './constants';
+import { CostReport, ReportsService } from './reports.service';
+
+const FROM = new Date('2026-03-01T00:00:00Z');
+const TO = new Date('2026-04-01T00:00:00Z');
+
+type Stage = Record<string, Record<string, unknown>>;
+
+describe('ReportsService', () => {
+  let aggregateResult: unknown[];
+  let aggregate: jest.Mock<Promise<unknown[]>, [Stage[]]>;
+  let service: ReportsService;
+
+  beforeEach(() => {
+    aggregateResult = [];
+    aggregate = jest.fn<Promise<unknown[]>, [Stage[]]>(() => Promise.resolve(aggregateResult));
+    service = new ReportsService({ aggregate } as unknown as Model<Print>);
+  });
+
+  const pipeline = () => aggregate.mock.calls[0][0];
+
+  describe('resolvePeriod', () => {
+    it('defaults to the start of the current month until now', () => {
+      const now = new Date();
+      const period = service.resolvePeriod({});
+      expect(period.from).toEqual(new Date(now.getFullYear(), now.getMonth(), 1));
+      expect(period.to.getTime()).toBeGreaterThanOrEqual(now.getTime());
+    });
+
+    it('rejects an empty or inverted period', () => {
+      expect(() => service.resolvePeriod({ from: TO, to: FROM })).toThrow(BadRequestException);
+      expect(() => service.resolvePeriod({ from: FROM, to: FROM })).toThrow(BadRequestException);
+    });
+  });
+
+  describe('getCostReport', () => {
+    const query = (groupBy: CostReportGroupBy) => ({ from: FROM, to: TO, groupBy, format: ReportFormat.JSON });
+
+    it('groups completed jobs of the period by the requested field', async () => {
+      await service.getCostReport(query(CostReportGroupBy.PRINTER));
+
+      expect(pipeline()[0].$match).toEqual({ requestStatus: 'completed', createdAt: { $gte: FROM, $lt: TO } });
+      expect(pipeline()[1].$group._id).toEqual({ $ifNull: ['$printer', 'unknown'] });
+    });
+
+    it('adds up the totals and reports the currency once', async () => {
+      aggregateResult = [
+        { key: 'finance', jobs: 3, colorJobs: 1, pages: 30, sheets: 20, impressions: 30, cost: 1.15, currency: 'EUR' },
+        { key: 'legal', jobs: 1, colorJobs: 0, pages: 4, sheets: 4, impressions: 4, cost: 0.2 },
+      ];
+      const report = await service.getCostReport(query(CostReportGroupBy.DEPARTMENT));
+
+      expect(report).toMatchObject({ groupBy: 'department', from: FROM, to: TO, currency: 'EUR' });
+      expect(report.totals).toEqual({ jobs: 4, colorJobs: 1, pages: 34, sheets: 24, impressions: 34, cost: 1.35 });
+      expect(report.rows.every((row) => !('currency' in row))).toBe(true);
+    });
+
+    it('reports no currency without a price table', async () => {
+      aggregateResult = [{ key: 'E001', jobs: 1, colorJobs: 0, pages: 1, sheets: 1, impressions: 1, cost: 0 }];
+      await expect(service.getCostReport(query(CostReportGroupBy.EMPLOYEE))).resolves.toMatchObject({ currency: null });
+    });
+  });
+
+  describe('usage analytics', () => {
+    const usageQuery = (interval = UsageInterval.DAY) => ({ from: FROM, to: TO, interval, limit: 5 });
+
+    it('buckets pages over time by the requested interval', async () => {
+      await service.getPagesOverTime(usageQuery(UsageInterval.WEEK));
+      expect(pipeline()[1].$group._id).toEqual({ $dateToString: { format: '%G-W%V', date: '$createdAt' } });
+    });
+
+    it('limits top users to the requested number', async () => {
+      await service.getTopUsers(usageQuery());
+      expect(pipeline()).toContainEqual({ $limit: 5 });
+    });
+
+    it('derives the summary rates from the job counts', async () => {
+      aggregateResult = [{ jobs: 12, completed: 8, failed: 2, canceled: 2, pages: 90, colorJobs: 2, duplexJobs: 6, averageJobSeconds: 41.5 }];
+
+      await expect(service.getUsageSummary({ from: FROM, to: TO })).resolves.toEqual({
+        from: FROM,
+        to: TO,
+        jobs: 12,
+        completed: 8,
+        failed: 2,
+        canceled: 2,
+        pages: 90,
+        colorShare: 0.25,
+        duplexRate: 0.75,
+        failureRate: 0.2,
+        averageJobSeconds: 41.5,
+      });
+    });
+
+    it('reports an empty period as zeros', async () => {
+      await expect(service.getUsageSummary({ from: FROM, to: TO })).resolves.toMatchObject({
+        jobs: 0,
+        colorShare: 0,
+        duplexRate: 0,
+        failureRate: 0,
+        averageJobSeconds: null,
+      });
+    });
+
+    it('adds a failure rate per printer', async () => {
+      aggregateResult = [
+        { printer: 'floor-1', jobs: 4, completed: 2, failed: 1, averageJobSeconds: 12 },
+        { printer: 'floor-2', jobs: 1, completed: 0, failed: 0 },
+      ];
+
+      await expect(service.getPrinterUsage({ from: FROM, to: TO })).resolves.toEqual([
+        { printer: 'floor-1', jobs: 4, completed: 2, failed: 1, failureRate: 0.333, averageJobSeconds: 12 },
+        { printer: 'floor-2', jobs: 1, completed: 0, failed: 0, failureRate: 0, averageJobSeconds: null },
+      ]);
+    });
+  });
+
+  describe('costReportToCsv', () => {
+    const report = (overrides: Partial<CostReport> = {}): CostReport => ({
+      groupBy: CostReportGroupBy.DEPARTMENT,
+      from: FROM,
+      to: TO,
+      currency: 'EUR',
+      rows: [{ key: 'finance', jobs: 3, colorJobs: 1, pages: 30, sheets: 20, impressions: 30, cost: 1.5 }],
+      totals: { jobs: 3, colorJobs: 1, pages: 30, sheets: 20, impressions: 30, cost: 1.5 },
+      ...overrides,
+    });
+
+    it('writes a header and one CRLF-terminated line per row', () => {
+      expect(service.costReportToCsv(report())).toBe(
+        'department,jobs,colorJobs,pages,sheets,impressions,cost (EUR)\r\nfinance,3,1,30,20,30,1.50\r\n',
+      );
+    });
+
+    it('adds the employee name column when grouped by employee', () => {
+      const csv = service.costReportToCsv(report({
+        groupBy: CostReportGroupBy.EMPLOYEE,
+        currency: null,
+        rows: [{ key: 'E001', employeeName: 'Doe, Jane', jobs: 1, colorJobs: 0, pages: 2, sheets: 1, impressions: 2, cost: 0 }],
+      }));
+      expect(csv).toBe('employee,employeeName,jobs,colorJobs,pages,sheets,impressions,cost\r\nE001,"Doe, Jane",1,0,2,1,2,0.00\r\n');
+    });
+
+    it('escapes quotes and neutralises spreadsheet formulas', () => {
+      const csv = service.costReportToCsv(report({
+        rows: [
+          { key: '=HYPERLINK("x")', jobs: 1, colorJobs: 0, pages: 1, sheets: 1, impressions: 1, cost: 0 },
+          { key: '@admin', jobs: 1, colorJobs: 0, pages: 1, sheets: 1, impressions: 1, cost: 0 },
+        ],
+      }));
+      const [, first, second] = csv.split('\r\n');
+      expect(first.split(',')[0]).toBe('"\'=HYPERLINK(""x"")"');
+      expect(second.split(',')[0]).toBe('\'@admin');
+    });
+  });
+});
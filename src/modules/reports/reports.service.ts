@@ -0,0 +1,285 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Print } from '../prints/entities/print.entity';
+import { ColorMode, PrintRequestStatus, Sides } from '../prints/constants';
+import { CostReportQueryDto } from './dto/cost-report-query.dto';
+import { ReportPeriodDto } from './dto/report-period.dto';
+import { UsageReportQueryDto } from './dto/usage-report-query.dto';
+import { COST_REPORT_GROUP_FIELDS, CostReportGroupBy, USAGE_INTERVAL_FORMATS, UsageInterval } from './constants';
+
+export interface ReportPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface CostReportRow {
+  key: string;
+  employeeName?: string;
+  jobs: number;
+  colorJobs: number;
+  pages: number;
+  sheets: number;
+  impressions: number;
+  cost: number;
+}
+
+export interface CostReport extends ReportPeriod {
+  groupBy: CostReportGroupBy;
+  currency: string | null;
+  rows: CostReportRow[];
+  totals: Omit<CostReportRow, 'key' | 'employeeName'>;
+}
+
+export interface PagesOverTimeRow {
+  period: string;
+  jobs: number;
+  pages: number;
+  colorPages: number;
+}
+
+export interface TopUserRow {
+  employeeId: string;
+  employeeName: string;
+  department: string | null;
+  jobs: number;
+  pages: number;
+}
+
+export interface PrinterUsageRow {
+  printer: string;
+  jobs: number;
+  completed: number;
+  failed: number;
+  failureRate: number;
+  averageJobSeconds: number | null;
+}
+
+export interface UsageSummary extends ReportPeriod {
+  jobs: number;
+  completed: number;
+  failed: number;
+  canceled: number;
+  pages: number;
+  colorShare: number; // Share of completed jobs printed in color
+  duplexRate: number; // Share of completed jobs printed double-sided
+  failureRate: number; // Failed jobs out of those that completed or failed
+  averageJobSeconds: number | null; // From jobStartTime to jobEndTime of completed jobs
+}
+
+// jobStartTime/jobEndTime are stored as ISO strings; jobs missing either one are left out of averages
+const JOB_DURATION_MS = {
+  $subtract: [
+    { $dateFromString: { dateString: '$jobEndTime', onError: null, onNull: null } },
+    { $dateFromString: { dateString: '$jobStartTime', onError: null, onNull: null } },
+  ],
+};
+
+const isStatus = (status: PrintRequestStatus) => ({ $cond: [{ $eq: ['$requestStatus', status] }, 1, 0] });
+
+@Injectable()
+export class ReportsService {
+  constructor(@InjectModel(Print.name) private readonly printModel: Model<Print>) { }
+
+  /**
+   * Chargeback totals over completed jobs. Jobs priced on completion use their actual cost; older
+   * jobs without one fall back to the estimate made at submission.
+   */
+  async getCostReport(query: CostReportQueryDto): Promise<CostReport> {
+    const period = this.resolvePeriod(query);
+    const groupField = COST_REPORT_GROUP_FIELDS[query.groupBy];
+
+    const rows = await this.printModel.aggregate<CostReportRow & { currency?: string }>([
+      {
+        $match: {
+          requestStatus: PrintRequestStatus.COMPLETED,
+          createdAt: { $gte: period.from, $lt: period.to },
+        },
+      },
+      {
+        $group: {
+          _id: { $ifNull: [`$${groupField}`, 'unknown'] },
+          employeeName: { $first: '$employeeName' },
+          jobs: { $sum: 1 },
+          colorJobs: { $sum: { $cond: [{ $eq: ['$isColor', ColorMode.COLOR] }, 1, 0] } },
+          pages: { $sum: '$pagesPrinted' },
+          sheets: { $sum: { $ifNull: ['$sheets', 0] } },
+          impressions: { $sum: { $ifNull: ['$impressions', 0] } },
+          cost: { $sum: { $ifNull: ['$actualCost', { $ifNull: ['$estimatedCost', 0] }] } },
+          currency: { $max: '$currency' },
+        },
+      },
+      { $sort: { cost: -1, _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          key: '$_id',
+          employeeName: query.groupBy === CostReportGroupBy.EMPLOYEE ? '$employeeName' : '$$REMOVE',
+          jobs: 1,
+          colorJobs: 1,
+          pages: 1,
+          sheets: 1,
+          impressions: 1,
+          cost: { $round: ['$cost', 2] },
+          currency: 1,
+        },
+      },
+    ]);
+
+    const totals = rows.reduce(
+      (sum, row) => ({
+        jobs: sum.jobs + row.jobs,
+        colorJobs: sum.colorJobs + row.colorJobs,
+        pages: sum.pages + row.pages,
+        sheets: sum.sheets + row.sheets,
+        impressions: sum.impressions + row.impressions,
+        cost: Math.round((sum.cost + row.cost) * 100) / 100,
+      }),
+      { jobs: 0, colorJobs: 0, pages: 0, sheets: 0, impressions: 0, cost: 0 },
+    );
+
+    const currency = rows.find((row) => row.currency)?.currency ?? null;
+    rows.forEach((row) => delete row.currency);
+
+    return {
+      groupBy: query.groupBy,
+      ...period,
+      currency,
+      rows,
+      totals,
+    };
+  }
+
+  async getPagesOverTime(query: UsageReportQueryDto): Promise<PagesOverTimeRow[]> {
+    const period = this.resolvePeriod(query);
+    return this.printModel.aggregate<PagesOverTimeRow>([
+      { $match: { requestStatus: PrintRequestStatus.COMPLETED, createdAt: { $gte: period.from, $lt: period.to } } },
+      {
+        $group: {
+          _id: { $dateToString: { format: USAGE_INTERVAL_FORMATS[query.interval ?? UsageInterval.DAY], date: '$createdAt' } },
+          jobs: { $sum: 1 },
+          pages: { $sum: '$pagesPrinted' },
+          colorPages: { $sum: { $cond: [{ $eq: ['$isColor', ColorMode.COLOR] }, '$pagesPrinted', 0] } },
+        },
+      },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, period: '$_id', jobs: 1, pages: 1, colorPages: 1 } },
+    ]);
+  }
+
+  async getTopUsers(query: UsageReportQueryDto): Promise<TopUserRow[]> {
+    const period = this.resolvePeriod(query);
+    return this.printModel.aggregate<TopUserRow>([
+      { $match: { requestStatus: PrintRequestStatus.COMPLETED, createdAt: { $gte: period.from, $lt: period.to } } },
+      {
+        $group: {
+          _id: '$employeeId',
+          employeeName: { $last: '$employeeName' },
+          department: { $last: '$department' },
+          jobs: { $sum: 1 },
+          pages: { $sum: '$pagesPrinted' },
+        },
+      },
+      { $sort: { pages: -1, _id: 1 } },
+      { $limit: query.limit },
+      { $project: { _id: 0, employeeId: '$_id', employeeName: 1, department: { $ifNull: ['$department', null] }, jobs: 1, pages: 1 } },
+    ]);
+  }
+
+  async getUsageSummary(query: ReportPeriodDto): Promise<UsageSummary> {
+    const period = this.resolvePeriod(query);
+    const [result] = await this.printModel.aggregate<Omit<UsageSummary, 'from' | 'to' | 'colorShare' | 'duplexRate' | 'failureRate'> & { colorJobs: number; duplexJobs: number }>([
+      { $match: { createdAt: { $gte: period.from, $lt: period.to } } },
+      {
+        $group: {
+          _id: null,
+          jobs: { $sum: 1 },
+          completed: { $sum: isStatus(PrintRequestStatus.COMPLETED) },
+          failed: { $sum: isStatus(PrintRequestStatus.FAILED) },
+          canceled: { $sum: isStatus(PrintRequestStatus.CANCELED) },
+          pages: { $sum: { $cond: [{ $eq: ['$requestStatus', PrintRequestStatus.COMPLETED] }, '$pagesPrinted', 0] } },
+          colorJobs: {
+            $sum: { $cond: [{ $and: [{ $eq: ['$requestStatus', PrintRequestStatus.COMPLETED] }, { $eq: ['$isColor', ColorMode.COLOR] }] }, 1, 0] },
+          },
+          duplexJobs: {
+            $sum: { $cond: [{ $and: [{ $eq: ['$requestStatus', PrintRequestStatus.COMPLETED] }, { $eq: ['$sides', Sides.DOUBLE] }] }, 1, 0] },
+          },
+          averageJobMs: { $avg: { $cond: [{ $eq: ['$requestStatus', PrintRequestStatus.COMPLETED] }, JOB_DURATION_MS, null] } },
+        },
+      },
+      { $project: { _id: 0, averageJobSeconds: { $round: [{ $divide: ['$averageJobMs', 1000] }, 1] }, jobs: 1, completed: 1, failed: 1, canceled: 1, pages: 1, colorJobs: 1, duplexJobs: 1 } },
+    ]);
+
+    const summary = result ?? { jobs: 0, completed: 0, failed: 0, canceled: 0, pages: 0, colorJobs: 0, duplexJobs: 0, averageJobSeconds: null };
+    return {
+      ...period,
+      jobs: summary.jobs,
+      completed: summary.completed,
+      failed: summary.failed,
+      canceled: summary.canceled,
+      pages: summary.pages,
+      colorShare: this.ratio(summary.colorJobs, summary.completed),
+      duplexRate: this.ratio(summary.duplexJobs, summary.completed),
+      failureRate: this.ratio(summary.failed, summary.completed + summary.failed),
+      averageJobSeconds: summary.averageJobSeconds ?? null,
+    };
+  }
+
+  async getPrinterUsage(query: ReportPeriodDto): Promise<PrinterUsageRow[]> {
+    const period = this.resolvePeriod(query);
+    const rows = await this.printModel.aggregate<Omit<PrinterUsageRow, 'failureRate'>>([
+      { $match: { createdAt: { $gte: period.from, $lt: period.to } } },
+      {
+        $group: {
+          _id: '$printer',
+          jobs: { $sum: 1 },
+          completed: { $sum: isStatus(PrintRequestStatus.COMPLETED) },
+          failed: { $sum: isStatus(PrintRequestStatus.FAILED) },
+          averageJobMs: { $avg: { $cond: [{ $eq: ['$requestStatus', PrintRequestStatus.COMPLETED] }, JOB_DURATION_MS, null] } },
+        },
+      },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, printer: '$_id', jobs: 1, completed: 1, failed: 1, averageJobSeconds: { $round: [{ $divide: ['$averageJobMs', 1000] }, 1] } } },
+    ]);
+    return rows.map((row) => ({
+      ...row,
+      failureRate: this.ratio(row.failed, row.completed + row.failed),
+      averageJobSeconds: row.averageJobSeconds ?? null,
+    }));
+  }
+
+  costReportToCsv(report: CostReport): string {
+    const header = [report.groupBy, ...(report.groupBy === CostReportGroupBy.EMPLOYEE ? ['employeeName'] : []), 'jobs', 'colorJobs', 'pages', 'sheets', 'impressions', `cost${report.currency ? ` (${report.currency})` : ''}`];
+    const lines = report.rows.map((row) => [
+      row.key,
+      ...(report.groupBy === CostReportGroupBy.EMPLOYEE ? [row.employeeName ?? ''] : []),
+      row.jobs,
+      row.colorJobs,
+      row.pages,
+      row.sheets,
+      row.impressions,
+      row.cost.toFixed(2),
+    ]);
+    return [header, ...lines].map((line) => line.map((value) => this.escapeCsv(String(value))).join(',')).join('\r\n') + '\r\n';
+  }
+
+  resolvePeriod(query: ReportPeriodDto): ReportPeriod {
+    const now = new Date();
+    const from = query.from ?? new Date(now.getFullYear(), now.getMonth(), 1);
+    const to = query.to ?? now;
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    return { from, to };
+  }
+
+  private ratio(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+  }
+
+  private escapeCsv(value: string): string {
+    // Names starting with a formula character would otherwise be evaluated by spreadsheet apps
+    const safeValue = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+  }
+}
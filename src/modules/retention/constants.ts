@@ -0,0 +1,10 @@
+import { PrintRequestStatus } from '../prints/constants';
+
+// Days a stored file is kept once its print reached one of these states; FILE_RETENTION_DAYS overrides them per status
+export const DEFAULT_FILE_RETENTION_DAYS: Partial<Record<PrintRequestStatus, number>> = {
+  [PrintRequestStatus.COMPLETED]: 7,
+  [PrintRequestStatus.FAILED]: 30,
+  [PrintRequestStatus.CANCELED]: 7,
+  [PrintRequestStatus.EXPIRED]: 1,
+  [PrintRequestStatus.REJECTED]: 7,
+};
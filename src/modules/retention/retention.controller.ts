@@ -0,0 +1,32 @@
+import { Controller, Get, Post, UseGuards } from '@nestjs/common';
+import { RetentionPreview, RetentionRunResult, RetentionService, StorageUsage } from './retention.service';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { StaffRole } from '../staffs/constants';
+
+@Controller('retention')
+export class RetentionController {
+  constructor(private readonly retentionService: RetentionService) { }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('preview')
+  async preview(): Promise<RetentionPreview> {
+    return await this.retentionService.previewCleanup();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Post('run')
+  async run(): Promise<RetentionRunResult> {
+    return await this.retentionService.runCleanup();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
+  @Get('storage')
+  async storage(): Promise<StorageUsage> {
+    return await this.retentionService.getStorageUsage();
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RetentionService } from './retention.service';
+import { RetentionController } from './retention.controller';
+import { Print, PrintSchema } from '../prints/entities/print.entity';
+import { AuthModule } from 'src/auth/auth.module';
+import { AppConfigModule } from 'src/config/config.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Print.name, schema: PrintSchema }]),
+    AuthModule,
+    AppConfigModule,
+    StorageModule,
+  ],
+  controllers: [RetentionController],
+  providers: [RetentionService],
+})
+export class RetentionModule {}
@@ -0,0 +1,158 @@
+import { ConflictException } from '@nestjs/common';
+import { Model } from 'mongoose';
+import { ConfigService } from 'src/config/config.service';
+import { PrintRequestStatus } from '../prints/constants';
+import { Print } from '../prints/entities/print.entity';
+import { StorageBackend } from '../storage/storage-backend.interface';
+import { RetentionService } from './retention.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StoredPrint {
+  _id: string;
+  requestStatus: PrintRequestStatus;
+  updatedAt: Date;
+  employeeId: string;
+  fileType: string;
+  fileKey?: string;
+  createdAt?: Date;
+  fileDeletedAt?: Date;
+}
+
+interface CandidateFilter {
+  requestStatus: PrintRequestStatus;
+  updatedAt: { $lt: Date };
+  fileDeletedAt: { $exists: false };
+}
+
+describe('RetentionService', () => {
+  let prints: StoredPrint[];
+  let files: Map<string, number>;
+  let failingKeys: Set<string>;
+  let retentionDays: Record<string, number>;
+  let service: RetentionService;
+
+  const print = (id: string, requestStatus: PrintRequestStatus, ageDays: number, overrides: Partial<StoredPrint> = {}): StoredPrint => {
+    const stored = { _id: id, requestStatus, updatedAt: new Date(Date.now() - ageDays * DAY_MS), employeeId: 'E001', fileType: 'pdf', fileKey: `E001/${id}.pdf`, ...overrides };
+    prints.push(stored);
+    if (stored.fileKey) {
+      files.set(stored.fileKey, 100);
+    }
+    return stored;
+  };
+
+  beforeEach(() => {
+    prints = [];
+    files = new Map();
+    failingKeys = new Set();
+    retentionDays = {};
+
+    const printModel = {
+      find: jest.fn((filter: CandidateFilter) => ({
+        select: () => ({
+          lean: () => ({
+            cursor: () => prints.filter((stored) =>
+              stored.requestStatus === filter.requestStatus && stored.updatedAt < filter.updatedAt.$lt && !stored.fileDeletedAt),
+          }),
+        }),
+      })),
+      updateOne: jest.fn(({ _id }: { _id: string }, { $set }: { $set: { fileDeletedAt: Date } }) => ({
+        exec: () => {
+          Object.assign(prints.find((stored) => stored._id === _id) ?? {}, $set);
+          return Promise.resolve({ modifiedCount: 1 });
+        },
+      })),
+    };
+    const storage = {
+      size: jest.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+      delete: jest.fn((key: string) => {
+        if (failingKeys.has(key)) {
+          return Promise.reject(new Error('Access denied'));
+        }
+        return Promise.resolve(files.delete(key));
+      }),
+    };
+    const configService = { get fileRetentionDays() { return retentionDays; }, fileRetentionSweepIntervalHours: 6 };
+
+    service = new RetentionService(
+      printModel as unknown as Model<Print>,
+      storage as unknown as StorageBackend,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  it('only lets FILE_RETENTION_DAYS override finished statuses', () => {
+    retentionDays = { completed: 2, pending: 1 };
+    expect(service.retentionPolicy).toMatchObject({ completed: 2, failed: 30 });
+    expect(service.retentionPolicy).not.toHaveProperty('pending');
+  });
+
+  it('previews prints past the retention period of their status', async () => {
+    print('a', PrintRequestStatus.COMPLETED, 8);
+    print('b', PrintRequestStatus.COMPLETED, 6);
+    print('c', PrintRequestStatus.FAILED, 8);
+    print('d', PrintRequestStatus.EXPIRED, 2, { fileDeletedAt: new Date() });
+
+    const preview = await service.previewCleanup();
+
+    expect(preview.candidates.find((candidate) => candidate.status === PrintRequestStatus.COMPLETED)).toMatchObject({ prints: 1, bytes: 100 });
+    expect(preview).toMatchObject({ totalPrints: 1, totalBytes: 100 });
+  });
+
+  it('deletes the files and marks their prints', async () => {
+    const deleted = print('a', PrintRequestStatus.COMPLETED, 8);
+    const kept = print('b', PrintRequestStatus.CANCELED, 3);
+
+    const result = await service.runCleanup();
+
+    expect(result).toMatchObject({ deletedFiles: 1, missingFiles: 0, failedFiles: 0, freedBytes: 100 });
+    expect(deleted.fileDeletedAt).toBeInstanceOf(Date);
+    expect(kept.fileDeletedAt).toBeUndefined();
+    expect([...files.keys()]).toEqual(['E001/b.pdf']);
+  });
+
+  it('marks prints whose file is already gone or cannot be located, so later sweeps skip them', async () => {
+    const gone = print('a', PrintRequestStatus.COMPLETED, 8);
+    files.delete('E001/a.pdf');
+    const unresolvable = print('b', PrintRequestStatus.COMPLETED, 8, { fileKey: undefined, fileType: 'unknown' });
+
+    await expect(service.runCleanup()).resolves.toMatchObject({ deletedFiles: 0, missingFiles: 2 });
+    expect(gone.fileDeletedAt).toBeInstanceOf(Date);
+    expect(unresolvable.fileDeletedAt).toBeInstanceOf(Date);
+    await expect(service.previewCleanup()).resolves.toMatchObject({ totalPrints: 0 });
+  });
+
+  it('keeps the print for the next sweep when the delete fails', async () => {
+    const failing = print('a', PrintRequestStatus.COMPLETED, 8);
+    failingKeys.add('E001/a.pdf');
+
+    await expect(service.runCleanup()).resolves.toMatchObject({ deletedFiles: 0, failedFiles: 1 });
+    expect(failing.fileDeletedAt).toBeUndefined();
+  });
+
+  it('refuses a second run while one is in progress', async () => {
+    print('a', PrintRequestStatus.COMPLETED, 8);
+    const first = service.runCleanup();
+
+    await expect(service.runCleanup()).rejects.toThrow(ConflictException);
+    await expect(first).resolves.toMatchObject({ deletedFiles: 1 });
+  });
+
+  it('skips a scheduled sweep while a run is in progress', async () => {
+    jest.useFakeTimers();
+    try {
+      print('a', PrintRequestStatus.COMPLETED, 8);
+      const runCleanup = jest.spyOn(service, 'runCleanup');
+      const first = service.runCleanup();
+
+      service.onModuleInit();
+      jest.advanceTimersByTime(6 * 60 * 60 * 1000);
+      service.onModuleDestroy();
+
+      expect(runCleanup).toHaveBeenCalledTimes(1);
+      await first;
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
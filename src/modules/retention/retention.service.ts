@@ -0,0 +1,225 @@
+import { ConflictException, Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Print } from '../prints/entities/print.entity';
+import { PrintRequestStatus, TERMINAL_REQUEST_STATUSES } from '../prints/constants';
+import { StorageBackend } from '../storage/storage-backend.interface';
+import { STORAGE_BACKEND } from '../storage/constants';
+import { ConfigService } from 'src/config/config.service';
+import { DEFAULT_FILE_RETENTION_DAYS } from './constants';
+import { getStoredFileKey } from '../prints/file-keys';
+
+export interface RetentionCandidates {
+  status: PrintRequestStatus;
+  retentionDays: number;
+  olderThan: Date;
+  prints: number;
+  bytes: number;
+}
+
+export interface RetentionPreview {
+  candidates: RetentionCandidates[];
+  totalPrints: number;
+  totalBytes: number;
+}
+
+export interface RetentionRunResult {
+  startedAt: Date;
+  finishedAt: Date;
+  deletedFiles: number;
+  missingFiles: number; // Already gone from storage; the print is still marked as cleaned up
+  failedFiles: number;
+  freedBytes: number;
+}
+
+export interface StorageUsageEntry {
+  key: string;
+  files: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  totalFiles: number;
+  totalBytes: number;
+  byEmployee: StorageUsageEntry[];
+  byDay: StorageUsageEntry[];
+}
+
+// Enough to work out the storage key, including that of prints saved before fileKey existed
+const STORED_FILE_FIELDS = 'fileKey employeeId fileType createdAt';
+
+/**
+ * Deletes stored files of finished prints once they are older than the retention period of their
+ * status. The print itself is kept for history and reporting and gets `fileDeletedAt` instead.
+ */
+@Injectable()
+export class RetentionService implements OnModuleInit, OnModuleDestroy {
+  private logger = new Logger('RetentionService');
+  private sweepTimer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectModel(Print.name) private readonly printModel: Model<Print>,
+    @Inject(STORAGE_BACKEND) private readonly storage: StorageBackend,
+    private readonly configService: ConfigService,
+  ) { }
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(
+      () => void this.runScheduledCleanup(),
+      this.configService.fileRetentionSweepIntervalHours * 60 * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  // Only finished prints are ever cleaned up, whatever FILE_RETENTION_DAYS says
+  get retentionPolicy(): Partial<Record<PrintRequestStatus, number>> {
+    const policy = { ...DEFAULT_FILE_RETENTION_DAYS };
+    for (const [status, days] of Object.entries(this.configService.fileRetentionDays)) {
+      if (TERMINAL_REQUEST_STATUSES.includes(status as PrintRequestStatus)) {
+        policy[status as PrintRequestStatus] = days;
+      }
+    }
+    return policy;
+  }
+
+  async previewCleanup(): Promise<RetentionPreview> {
+    const now = new Date();
+    const candidates: RetentionCandidates[] = [];
+    for (const [status, retentionDays] of this.policyEntries()) {
+      const olderThan = this.cutoff(retentionDays, now);
+      let prints = 0;
+      let bytes = 0;
+      for await (const print of this.printModel.find(this.candidateFilter(status, olderThan)).select(STORED_FILE_FIELDS).lean().cursor()) {
+        const fileKey = getStoredFileKey(print);
+        if (!fileKey) {
+          continue;
+        }
+        prints++;
+        bytes += (await this.storage.size(fileKey).catch(() => null)) ?? 0;
+      }
+      candidates.push({ status, retentionDays, olderThan, prints, bytes });
+    }
+    return {
+      candidates,
+      totalPrints: candidates.reduce((sum, candidate) => sum + candidate.prints, 0),
+      totalBytes: candidates.reduce((sum, candidate) => sum + candidate.bytes, 0),
+    };
+  }
+
+  async runCleanup(): Promise<RetentionRunResult> {
+    if (this.running) {
+      throw new ConflictException('A file cleanup is already running');
+    }
+    this.running = true;
+
+    const result: RetentionRunResult = { startedAt: new Date(), finishedAt: new Date(), deletedFiles: 0, missingFiles: 0, failedFiles: 0, freedBytes: 0 };
+    try {
+      for (const [status, retentionDays] of this.policyEntries()) {
+        const filter = this.candidateFilter(status, this.cutoff(retentionDays, result.startedAt));
+        for await (const print of this.printModel.find(filter).select(STORED_FILE_FIELDS).lean().cursor()) {
+          const fileKey = getStoredFileKey(print);
+          if (fileKey) {
+            await this.deleteFile(print._id, fileKey, result);
+          } else {
+            // No key can be worked out, so there is no file to delete; mark it so later sweeps skip it
+            result.missingFiles++;
+            await this.markFileDeleted(print._id);
+          }
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    result.finishedAt = new Date();
+    if (result.deletedFiles > 0 || result.failedFiles > 0) {
+      this.logger.log(`File cleanup deleted ${result.deletedFiles} file(s), freed ${result.freedBytes} bytes, ${result.failedFiles} failure(s)`);
+    }
+    return result;
+  }
+
+  // Keys are laid out as <employeeId>/<YYYY-MM-DD>/<printId>.<ext>
+  async getStorageUsage(): Promise<StorageUsage> {
+    const byEmployee = new Map<string, StorageUsageEntry>();
+    const byDay = new Map<string, StorageUsageEntry>();
+    const add = (entries: Map<string, StorageUsageEntry>, key: string, bytes: number) => {
+      const entry = entries.get(key) ?? { key, files: 0, bytes: 0 };
+      entry.files++;
+      entry.bytes += bytes;
+      entries.set(key, entry);
+    };
+
+    for await (const object of this.storage.list()) {
+      const [employeeId, day] = object.key.split('/');
+      if (!employeeId || !day) {
+        continue;
+      }
+      add(byEmployee, employeeId, object.size);
+      add(byDay, day, object.size);
+    }
+
+    const employees = [...byEmployee.values()].sort((a, b) => b.bytes - a.bytes || a.key.localeCompare(b.key));
+    return {
+      totalFiles: employees.reduce((sum, entry) => sum + entry.files, 0),
+      totalBytes: employees.reduce((sum, entry) => sum + entry.bytes, 0),
+      byEmployee: employees,
+      byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    };
+  }
+
+  private async deleteFile(printId: unknown, fileKey: string, result: RetentionRunResult): Promise<void> {
+    try {
+      const bytes = await this.storage.size(fileKey);
+      if (bytes !== null && (await this.storage.delete(fileKey))) {
+        result.deletedFiles++;
+        result.freedBytes += bytes;
+      } else {
+        result.missingFiles++;
+      }
+    } catch (error) {
+      result.failedFiles++;
+      this.logger.error(`Failed to delete ${fileKey}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    await this.markFileDeleted(printId);
+  }
+
+  private async markFileDeleted(printId: unknown): Promise<void> {
+    await this.printModel.updateOne({ _id: printId }, { $set: { fileDeletedAt: new Date() } }).exec();
+  }
+
+  private async runScheduledCleanup(): Promise<void> {
+    // A long manual run may still be going; the next sweep picks up whatever it leaves
+    if (this.running) {
+      this.logger.log('Skipping scheduled file cleanup, a cleanup is already running');
+      return;
+    }
+    await this.runCleanup().catch((error: unknown) => {
+      this.logger.error(`Scheduled file cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  private policyEntries(): Array<[PrintRequestStatus, number]> {
+    return Object.entries(this.retentionPolicy) as Array<[PrintRequestStatus, number]>;
+  }
+
+  private candidateFilter(status: PrintRequestStatus, olderThan: Date): Record<string, unknown> {
+    // updatedAt is when the print reached its final status
+    return {
+      requestStatus: status,
+      updatedAt: { $lt: olderThan },
+      fileDeletedAt: { $exists: false },
+    };
+  }
+
+  private cutoff(retentionDays: number, now: Date): Date {
+    return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  }
+}
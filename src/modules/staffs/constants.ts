@@ -0,0 +1,9 @@
+export enum StaffRole {
+  ADMIN = 'admin',
+  APPROVER = 'approver',
+  STAFF = 'staff',
+  KIOSK = 'kiosk',
+}
+
+// Account that held admin rights before roles existed; promoted on startup if no admin is configured
+export const LEGACY_IT_ADMIN_ID = '6835ed56604d4e29a09bd6a1';
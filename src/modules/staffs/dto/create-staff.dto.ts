@@ -1,4 +1,5 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsInt, Min, IsArray, IsEnum, IsBoolean } from 'class-validator';
+import { StaffRole } from '../constants';
 
 export class CreateStaffDto {
   @IsString()
@@ -21,6 +22,20 @@ export class CreateStaffDto {
   @IsNotEmpty()
   department: string;
 
+  @IsOptional()
+  @IsArray()
+  @IsEnum(StaffRole, { each: true })
+  roles?: StaffRole[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  monthlyPageQuota?: number;
+
   @IsString()
   @IsNotEmpty()
   createdBy: string; // Expect ObjectId as string, convert in service
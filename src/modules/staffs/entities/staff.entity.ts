@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { StaffRole } from '../constants';
 
 @Schema({ collection: 'staffs', timestamps: true })
 export class Staff extends Document {
@@ -18,6 +19,15 @@ export class Staff extends Document {
   @Prop({ required: true })
   readonly department: string;
 
+  @Prop({ type: [String], enum: StaffRole, default: [StaffRole.STAFF] })
+  readonly roles: StaffRole[];
+
+  @Prop({ default: true })
+  readonly isActive: boolean; // Disabled staff cannot log in and their tokens stop working
+
+  @Prop({ min: 0 })
+  readonly monthlyPageQuota?: number; // Overrides the department default when set
+
   @Prop({ type: Types.ObjectId, ref: () => Staff })
   createdBy: Types.ObjectId;
 
@@ -5,41 +5,51 @@ import { UpdateStaffDto } from './dto/update-staff.dto';
 import { QueryStaffDto } from './dto/query-params-staffs.dto';
 import { Staff } from './entities/staff.entity';
 import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { StaffRole } from './constants';
 
 @Controller('staffs')
 export class StaffsController {
   constructor(private readonly staffsService: StaffsService) { }
 
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
   @Post()
   async create(@Body() createStaffDto: CreateStaffDto): Promise<Staff> {
     return await this.staffsService.createStaff(createStaffDto);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
   @Get()
   async findAll(): Promise<Staff[]> {
     return await this.staffsService.getAllStaffs();
   }
 
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
   @Get('search')
   async findByParameters(@Query() queryParams: QueryStaffDto): Promise<Staff[] | null> {
     return await this.staffsService.getStaffByParameters(queryParams);
   }
 
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN, StaffRole.APPROVER)
   @Get(':id')
   async findOne(@Param('id') id: string): Promise<Staff | null> {
     return await this.staffsService.getStaffById(id);
   }
 
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
   @Patch(':id')
   async update(@Param('id') id: string, @Body() updateStaffDto: UpdateStaffDto): Promise<Staff | null> {
     return await this.staffsService.updateStaff(id, updateStaffDto);
   }
 
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(StaffRole.ADMIN)
   @Delete(':id')
   async remove(@Param('id') id: string): Promise<Staff | null> {
     return await this.staffsService.deleteStaff(id);
@@ -12,5 +12,6 @@ import { AuthModule } from 'src/auth/auth.module';
   ],
   controllers: [StaffsController],
   providers: [StaffsService],
+  exports: [StaffsService],
 })
 export class StaffsModule {}
@@ -1,4 +1,4 @@
-import { BadRequestException, ConflictException, Injectable, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, InternalServerErrorException, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
 import { CreateStaffDto } from './dto/create-staff.dto';
 import { UpdateStaffDto } from './dto/update-staff.dto';
 import { InjectModel } from '@nestjs/mongoose';
@@ -7,10 +7,41 @@ import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { QueryStaffDto } from './dto/query-params-staffs.dto';
 import { MongoServerError } from 'mongodb';
+import { LEGACY_IT_ADMIN_ID, StaffRole } from './constants';
+import { AuthService } from 'src/auth/auth.service';
 
 @Injectable()
-export class StaffsService {
-  constructor(@InjectModel(Staff.name) private readonly staffModel: Model<Staff>) { }
+export class StaffsService implements OnModuleInit {
+  private logger = new Logger('StaffsService');
+
+  constructor(
+    @InjectModel(Staff.name) private readonly staffModel: Model<Staff>,
+    private readonly authService: AuthService,
+  ) { }
+
+  async onModuleInit() {
+    await this.ensureAdminExists();
+  }
+
+  // Keeps the former hard-coded IT admin able to log in and assign roles after upgrading
+  private async ensureAdminExists(): Promise<void> {
+    try {
+      const adminExists = await this.staffModel.exists({ roles: StaffRole.ADMIN }).exec();
+      if (adminExists) {
+        return;
+      }
+      const result = await this.staffModel
+        .updateOne({ _id: LEGACY_IT_ADMIN_ID }, { $addToSet: { roles: { $each: [StaffRole.STAFF, StaffRole.ADMIN] } } })
+        .exec();
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Granted the admin role to legacy IT admin ${LEGACY_IT_ADMIN_ID}`);
+      } else {
+        this.logger.warn('No staff member has the admin role');
+      }
+    } catch (error) {
+      this.logger.error(`Failed to check for admin accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
   async createStaff(createStaffDto: CreateStaffDto): Promise<Staff> {
     try {
@@ -107,6 +138,10 @@ export class StaffsService {
     }
   }
 
+  async getStaffByEmployeeId(employeeId: string): Promise<Staff | null> {
+    return this.staffModel.findOne({ employeeId: employeeId.trim() }).exec();
+  }
+
   async getStaffById(id: string): Promise<Staff | null> {
     try {
       this.validateId(id);
@@ -150,6 +185,10 @@ export class StaffsService {
         throw new NotFoundException(`Staff with ID ${id} not found`);
       }
 
+      if (cleanedData.isActive === false) {
+        await this.authService.revokeAllSessions(id);
+      }
+
       return existingStaff;
     } catch (error: unknown) {
       const errorMessage =
@@ -167,6 +206,8 @@ export class StaffsService {
         throw new NotFoundException(`Staff with ID ${id} not found`);
       }
 
+      await this.authService.revokeAllSessions(id);
+
       return deletedStaff;
     } catch (error: unknown) {
       const errorMessage =
@@ -0,0 +1,7 @@
+// Injection token for the configured StorageBackend
+export const STORAGE_BACKEND = 'STORAGE_BACKEND';
+
+export enum StorageBackendType {
+  LOCAL = 'local',
+  S3 = 's3',
+}
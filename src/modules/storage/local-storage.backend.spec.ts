@@ -0,0 +1,77 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageBackend } from './local-storage.backend';
+import { StoredObject } from './storage-backend.interface';
+
+describe('LocalStorageBackend', () => {
+  let basePath: string;
+  let storage: LocalStorageBackend;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'print-uploads-'));
+    storage = new LocalStorageBackend(basePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  const collect = async (objects: AsyncIterable<StoredObject>) => {
+    const result: StoredObject[] = [];
+    for await (const object of objects) {
+      result.push(object);
+    }
+    return result.sort((a, b) => a.key.localeCompare(b.key));
+  };
+
+  it('stores files under their key and reads them back', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('%PDF-1.7'));
+
+    expect(await fs.readFile(path.join(basePath, 'E001', '2025-01-31', 'abc.pdf'), 'utf8')).toBe('%PDF-1.7');
+    expect((await storage.get('E001/2025-01-31/abc.pdf')).toString()).toBe('%PDF-1.7');
+    expect(await storage.size('E001/2025-01-31/abc.pdf')).toBe(8);
+  });
+
+  it('reports missing files as null', async () => {
+    expect(await storage.size('E001/2025-01-31/missing.pdf')).toBeNull();
+    await expect(storage.get('E001/2025-01-31/missing.pdf')).rejects.toThrow();
+  });
+
+  it('copies a file to a new key', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('content'));
+    await storage.copy('E001/2025-01-31/abc.pdf', 'E001/2025-02-01/def.pdf');
+
+    expect((await storage.get('E001/2025-02-01/def.pdf')).toString()).toBe('content');
+    expect(await storage.size('E001/2025-01-31/abc.pdf')).toBe(7);
+  });
+
+  it('deletes files and the folders they leave empty', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('a'));
+    await storage.put('E001/2025-02-01/def.pdf', Buffer.from('b'));
+
+    expect(await storage.delete('E001/2025-01-31/abc.pdf')).toBe(true);
+    expect(await storage.delete('E001/2025-01-31/abc.pdf')).toBe(false);
+    await expect(fs.stat(path.join(basePath, 'E001', '2025-01-31'))).rejects.toThrow();
+    expect(await storage.size('E001/2025-02-01/def.pdf')).toBe(1);
+    expect((await fs.stat(basePath)).isDirectory()).toBe(true);
+  });
+
+  it('lists stored files, optionally below a prefix', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('abc'));
+    await storage.put('E001/2025-02-01/def.pdf', Buffer.from('de'));
+    await storage.put('E002/2025-01-31/ghi.pdf', Buffer.from('g'));
+
+    expect(await collect(storage.list())).toEqual([
+      { key: 'E001/2025-01-31/abc.pdf', size: 3 },
+      { key: 'E001/2025-02-01/def.pdf', size: 2 },
+      { key: 'E002/2025-01-31/ghi.pdf', size: 1 },
+    ]);
+    expect(await collect(storage.list('E001/2025-02'))).toEqual([{ key: 'E001/2025-02-01/def.pdf', size: 2 }]);
+  });
+
+  it('rejects keys that point outside the upload directory', async () => {
+    await expect(storage.put('../outside.pdf', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(storage.get('E001/../../outside.pdf')).rejects.toThrow('Invalid storage key');
+  });
+});
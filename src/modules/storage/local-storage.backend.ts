@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageBackend, StoredObject } from './storage-backend.interface';
+import { StorageBackendType } from './constants';
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly type = StorageBackendType.LOCAL;
+  private readonly basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    const targetPath = this.resolve(targetKey);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.copyFile(this.resolve(sourceKey), targetPath);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+    // Drop the folders that became empty; rmdir refuses to remove anything that still has files
+    let directory = path.dirname(filePath);
+    while (directory !== this.basePath && directory.startsWith(this.basePath)) {
+      const removed = await fs.rmdir(directory).then(() => true).catch(() => false);
+      if (!removed) {
+        break;
+      }
+      directory = path.dirname(directory);
+    }
+    return true;
+  }
+
+  async size(key: string): Promise<number | null> {
+    const stats = await fs.stat(this.resolve(key)).catch(() => undefined);
+    return stats?.isFile() ? stats.size : null;
+  }
+
+  async *list(prefix = ''): AsyncIterable<StoredObject> {
+    yield* this.walk(this.basePath, prefix);
+  }
+
+  private async *walk(directory: string, prefix: string): AsyncIterable<StoredObject> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      const key = path.relative(this.basePath, entryPath).split(path.sep).join('/');
+      if (entry.isDirectory()) {
+        // Only descend into folders that can still contain a match
+        if (prefix.startsWith(`${key}/`) || key.startsWith(prefix)) {
+          yield* this.walk(entryPath, prefix);
+        }
+      } else if (entry.isFile() && key.startsWith(prefix)) {
+        const stats = await fs.stat(entryPath).catch(() => undefined);
+        if (stats) {
+          yield { key, size: stats.size };
+        }
+      }
+    }
+  }
+
+  // Keys come from the database, but never let one escape the upload directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.basePath, ...key.split('/'));
+    if (!filePath.startsWith(this.basePath + path.sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return filePath;
+  }
+}
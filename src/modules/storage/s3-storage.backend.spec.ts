@@ -0,0 +1,136 @@
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { S3StorageBackend } from './s3-storage.backend';
+import { StoredObject } from './storage-backend.interface';
+
+/**
+ * In-memory stand-in for an S3-compatible server. It answers the commands the backend sends the way
+ * S3 and MinIO do, including a 404 on HeadObject and paged ListObjectsV2 results.
+ */
+class FakeS3Client {
+  readonly objects = new Map<string, Buffer>();
+  readonly pageSize = 2;
+
+  send(command: unknown): Promise<unknown> {
+    return Promise.resolve().then(() => this.handle(command));
+  }
+
+  private handle(command: unknown): unknown {
+    if (command instanceof PutObjectCommand) {
+      this.objects.set(this.key(command.input.Bucket, command.input.Key), command.input.Body as Buffer);
+      return {};
+    }
+    if (command instanceof GetObjectCommand) {
+      const body = this.find(command.input.Bucket, command.input.Key);
+      return { Body: { transformToByteArray: () => Promise.resolve(new Uint8Array(body)) } };
+    }
+    if (command instanceof HeadObjectCommand) {
+      return { ContentLength: this.find(command.input.Bucket, command.input.Key).length };
+    }
+    if (command instanceof CopyObjectCommand) {
+      const source = decodeURIComponent(command.input.CopySource ?? '');
+      const body = this.objects.get(source);
+      if (!body) {
+        throw new NotFound({ message: 'NoSuchKey', $metadata: { httpStatusCode: 404 } });
+      }
+      this.objects.set(this.key(command.input.Bucket, command.input.Key), body);
+      return {};
+    }
+    if (command instanceof DeleteObjectCommand) {
+      this.objects.delete(this.key(command.input.Bucket, command.input.Key));
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      const prefix = this.key(command.input.Bucket, command.input.Prefix);
+      const keys = [...this.objects.keys()].filter((key) => key.startsWith(prefix)).sort();
+      const start = Number(command.input.ContinuationToken ?? 0);
+      const page = keys.slice(start, start + this.pageSize);
+      const next = start + this.pageSize;
+      return {
+        Contents: page.map((key) => ({ Key: key.slice(`${command.input.Bucket}/`.length), Size: this.objects.get(key)?.length })),
+        IsTruncated: next < keys.length,
+        NextContinuationToken: next < keys.length ? String(next) : undefined,
+      };
+    }
+    throw new Error('Unexpected command');
+  }
+
+  private find(bucket: string | undefined, key: string | undefined): Buffer {
+    const body = this.objects.get(this.key(bucket, key));
+    if (!body) {
+      throw new NotFound({ message: 'NotFound', $metadata: { httpStatusCode: 404 } });
+    }
+    return body;
+  }
+
+  private key(bucket: string | undefined, key: string | undefined): string {
+    return `${bucket}/${key ?? ''}`;
+  }
+}
+
+describe('S3StorageBackend', () => {
+  let client: FakeS3Client;
+  let storage: S3StorageBackend;
+
+  beforeEach(() => {
+    client = new FakeS3Client();
+    storage = new S3StorageBackend(client as unknown as S3Client, 'uploads', 'prints/');
+  });
+
+  const collect = async (objects: AsyncIterable<StoredObject>) => {
+    const result: StoredObject[] = [];
+    for await (const object of objects) {
+      result.push(object);
+    }
+    return result;
+  };
+
+  it('stores objects under the key prefix and reads them back', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('%PDF-1.7'));
+
+    expect(client.objects.has('uploads/prints/E001/2025-01-31/abc.pdf')).toBe(true);
+    expect((await storage.get('E001/2025-01-31/abc.pdf')).toString()).toBe('%PDF-1.7');
+    expect(await storage.size('E001/2025-01-31/abc.pdf')).toBe(8);
+  });
+
+  it('reports missing objects as null', async () => {
+    expect(await storage.size('E001/2025-01-31/missing.pdf')).toBeNull();
+  });
+
+  it('copies an object within the bucket', async () => {
+    await storage.put('E001/2025-01-31/abc def.pdf', Buffer.from('content'));
+    await storage.copy('E001/2025-01-31/abc def.pdf', 'E001/2025-02-01/ghi.pdf');
+
+    expect((await storage.get('E001/2025-02-01/ghi.pdf')).toString()).toBe('content');
+  });
+
+  it('only reports a delete when there was an object', async () => {
+    await storage.put('E001/2025-01-31/abc.pdf', Buffer.from('a'));
+
+    expect(await storage.delete('E001/2025-01-31/abc.pdf')).toBe(true);
+    expect(await storage.delete('E001/2025-01-31/abc.pdf')).toBe(false);
+    expect(client.objects.size).toBe(0);
+  });
+
+  it('lists every page of objects without the key prefix', async () => {
+    await storage.put('E001/2025-01-31/a.pdf', Buffer.from('abc'));
+    await storage.put('E001/2025-01-31/b.pdf', Buffer.from('de'));
+    await storage.put('E001/2025-02-01/c.pdf', Buffer.from('f'));
+    await storage.put('E002/2025-01-31/d.pdf', Buffer.from('g'));
+
+    expect(await collect(storage.list('E001/'))).toEqual([
+      { key: 'E001/2025-01-31/a.pdf', size: 3 },
+      { key: 'E001/2025-01-31/b.pdf', size: 2 },
+      { key: 'E001/2025-02-01/c.pdf', size: 1 },
+    ]);
+    expect(await collect(storage.list())).toHaveLength(4);
+  });
+});
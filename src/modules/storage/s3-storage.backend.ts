@@ -0,0 +1,80 @@
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { StorageBackend, StoredObject } from './storage-backend.interface';
+import { StorageBackendType } from './constants';
+
+// Works against AWS S3 and S3-compatible servers such as MinIO (with forcePathStyle)
+export class S3StorageBackend implements StorageBackend {
+  readonly type = StorageBackendType.S3;
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly keyPrefix = '',
+  ) { }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key), Body: data }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+    if (!response.Body) {
+      throw new Error(`Object ${key} has no content`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    const copySource = `${this.bucket}/${this.objectKey(sourceKey).split('/').map(encodeURIComponent).join('/')}`;
+    await this.client.send(new CopyObjectCommand({ Bucket: this.bucket, Key: this.objectKey(targetKey), CopySource: copySource }));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // DeleteObject succeeds for missing keys too, so check first to report whether anything was removed
+    if ((await this.size(key)) === null) {
+      return false;
+    }
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+    return true;
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return response.ContentLength ?? 0;
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async *list(prefix = ''): AsyncIterable<StoredObject> {
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: this.objectKey(prefix), ContinuationToken: continuationToken }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key) {
+          yield { key: object.Key.slice(this.keyPrefix.length), size: object.Size ?? 0 };
+        }
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  private objectKey(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,20 @@
+export interface StoredObject {
+  key: string;
+  size: number;
+}
+
+/**
+ * Where uploaded documents live. Keys are '/'-separated paths such as
+ * `<employeeId>/<YYYY-MM-DD>/<printId>.<ext>`, independent of the backend.
+ */
+export interface StorageBackend {
+  readonly type: string;
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  copy(sourceKey: string, targetKey: string): Promise<void>;
+  // Resolves to false when there was nothing to delete
+  delete(key: string): Promise<boolean>;
+  // Size in bytes, or null when the object does not exist
+  size(key: string): Promise<number | null>;
+  list(prefix?: string): AsyncIterable<StoredObject>;
+}
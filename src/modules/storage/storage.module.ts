@@ -0,0 +1,45 @@
+import { Logger, Module } from '@nestjs/common';
+import { S3Client } from '@aws-sdk/client-s3';
+import { AppConfigModule } from 'src/config/config.module';
+import { ConfigService } from 'src/config/config.service';
+import { StorageBackend } from './storage-backend.interface';
+import { LocalStorageBackend } from './local-storage.backend';
+import { S3StorageBackend } from './s3-storage.backend';
+import { STORAGE_BACKEND, StorageBackendType } from './constants';
+
+const createStorageBackend = (configService: ConfigService): StorageBackend => {
+  const logger = new Logger('StorageModule');
+  switch (configService.storageBackend as StorageBackendType) {
+    case StorageBackendType.S3: {
+      const client = new S3Client({
+        region: configService.s3Region,
+        endpoint: configService.s3Endpoint,
+        forcePathStyle: configService.s3ForcePathStyle,
+        // Without explicit keys the SDK falls back to its default credential chain
+        credentials: configService.s3AccessKeyId
+          ? { accessKeyId: configService.s3AccessKeyId, secretAccessKey: configService.s3SecretAccessKey }
+          : undefined,
+      });
+      logger.log(`Storing uploads in S3 bucket ${configService.s3Bucket}${configService.s3Endpoint ? ` at ${configService.s3Endpoint}` : ''}`);
+      return new S3StorageBackend(client, configService.s3Bucket, configService.s3KeyPrefix);
+    }
+    case StorageBackendType.LOCAL:
+      logger.log(`Storing uploads in ${configService.uploadBasePath}`);
+      return new LocalStorageBackend(configService.uploadBasePath);
+    default:
+      throw new Error(`❌ Unknown STORAGE_BACKEND ${configService.storageBackend}. Must be one of: ${Object.values(StorageBackendType).join(', ')}`);
+  }
+};
+
+@Module({
+  imports: [AppConfigModule],
+  providers: [
+    {
+      provide: STORAGE_BACKEND,
+      useFactory: createStorageBackend,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [STORAGE_BACKEND],
+})
+export class StorageModule {}
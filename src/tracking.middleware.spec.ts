@@ -0,0 +1,69 @@
+import { HttpException } from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import * as jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { AuthService } from './auth/auth.service';
+import { JwtPayload } from './common/jwt-payload.interface';
+import { ConfigService } from './config/config.service';
+import { StaffRole } from './modules/staffs/constants';
+import { AuthenticatedRequest, TrackingMiddleware } from './tracking.middleware';
+
+const SECRET = 'test-jwt-secret';
+const STAFF_ID = '6835ed56604d4e29a09bd6b2';
+
+describe('TrackingMiddleware', () => {
+  let currentRoles: StaffRole[];
+  let middleware: TrackingMiddleware;
+
+  beforeEach(() => {
+    currentRoles = [StaffRole.STAFF];
+    const configService = { jwtSecret: SECRET } as ConfigService;
+    const authService = {
+      assertTokenActive: jest.fn((payload: JwtPayload) => Promise.resolve({ ...payload, roles: currentRoles })),
+    } as unknown as AuthService;
+    middleware = new TrackingMiddleware(configService, authService);
+  });
+
+  const requestFor = (method: string, url: string, roles: StaffRole[]) =>
+    ({
+      method,
+      url,
+      headers: { authorization: `Bearer ${jwt.sign({ _id: STAFF_ID, employeeId: 'E001', roles }, SECRET)}` },
+      body: {},
+    }) as unknown as AuthenticatedRequest;
+
+  const run = (req: AuthenticatedRequest) =>
+    new Promise<Error | undefined>((resolve) => middleware.use(req, {} as FastifyReply, resolve));
+
+  it('rejects a DELETE from someone whose admin role was taken away', async () => {
+    const error = await run(requestFor('DELETE', '/prints/abc', [StaffRole.ADMIN]));
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(403);
+  });
+
+  it('allows a DELETE from someone who became an admin after login', async () => {
+    currentRoles = [StaffRole.ADMIN];
+    await expect(run(requestFor('DELETE', '/prints/abc', [StaffRole.STAFF]))).resolves.toBeUndefined();
+  });
+
+  it('stamps createdBy and updatedBy on tracked routes', async () => {
+    const post = requestFor('POST', '/prints', [StaffRole.STAFF]);
+    await run(post);
+    expect(post.body.createdBy).toEqual(new Types.ObjectId(STAFF_ID));
+    expect(post.body.updatedBy).toEqual(new Types.ObjectId(STAFF_ID));
+
+    const patch = requestFor('PATCH', '/staffs/abc', [StaffRole.STAFF]);
+    await run(patch);
+    expect(patch.body.createdBy).toBeUndefined();
+    expect(patch.body.updatedBy).toEqual(new Types.ObjectId(STAFF_ID));
+  });
+
+  it('leaves requests without a valid token untouched', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const req = { method: 'DELETE', url: '/prints/abc', headers: { authorization: 'Bearer not-a-token' }, body: {} } as unknown as AuthenticatedRequest;
+
+    await expect(run(req)).resolves.toBeUndefined();
+    expect(req.user).toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
@@ -4,6 +4,8 @@ import * as jwt from 'jsonwebtoken';
 import { ConfigService } from './config/config.service';
 import { Types } from 'mongoose'; // Add this import for ObjectId
 import { JwtPayload } from './common/jwt-payload.interface';
+import { StaffRole } from './modules/staffs/constants';
+import { AuthService } from './auth/auth.service';
 interface RequestBody {
     createdBy?: string | Types.ObjectId; // Update type to allow ObjectId
     updatedBy?: string | Types.ObjectId; // Update type to allow ObjectId
@@ -14,33 +16,42 @@ export interface AuthenticatedRequest extends FastifyRequest {
     body: RequestBody;
 }
 export class TrackingMiddleware implements NestMiddleware {
-    private readonly excludedRoutes = ['/auth/login', '/auth/logout'];
+    private readonly excludedRoutes = ['/auth/login', '/auth/refresh', '/auth/logout'];
     private readonly trackedRoutes: RegExp[] = [
         /^\/staffs(\/[a-zA-Z0-9]+)?\/?$/,
         /^\/prints(\/[a-zA-Z0-9]+)?\/?$/,
     ];
     private readonly jwtSecret: string;
-    private readonly IT_ADMIN_ID = '6835ed56604d4e29a09bd6a1';
 
-    constructor(configService: ConfigService) {
+    constructor(configService: ConfigService, private readonly authService: AuthService) {
         this.jwtSecret = configService.jwtSecret;
     }
 
     use(req: AuthenticatedRequest, res: FastifyReply, done: (err?: Error) => void): void {
-        const url = req.url;
-        const method = req.method;
+        this.authenticate(req)
+            .then(() => this.track(req, done))
+            .catch((error: Error) => done(error));
+    }
 
+    // Same check as JwtAuthGuard, so DELETE is judged on the staff member's current roles rather than the token's claim
+    private async authenticate(req: AuthenticatedRequest): Promise<void> {
         const authHeader = req.headers.authorization;
         if (authHeader && authHeader.length > 7) {
             try {
-                req.user = jwt.verify(authHeader.slice(7), this.jwtSecret) as JwtPayload;
+                const payload = jwt.verify(authHeader.slice(7), this.jwtSecret) as JwtPayload;
+                req.user = await this.authService.assertTokenActive(payload);
             } catch (error) {
                 console.error(error);
             }
         }
+    }
+
+    private track(req: AuthenticatedRequest, done: (err?: Error) => void): void {
+        const url = req.url;
+        const method = req.method;
 
         const userId = req.user?._id;
-        if (method === 'DELETE' && userId && userId !== this.IT_ADMIN_ID) {
+        if (method === 'DELETE' && userId && !req.user?.roles?.includes(StaffRole.ADMIN)) {
             throw new HttpException(
                 {
                     statusCode: HttpStatus.FORBIDDEN,